@@ -14,11 +14,11 @@ import { DebugMenu } from "./DebugMenu";
 import { NetModuleServer } from "./net/NetModule";
 import { NetClientState } from "./net/NetClient";
 import { Weapon, WeaponSystem } from "./Weapon";
-import { SimStream, SimState, EntityState, World, GameObjectType, GameObject, GameObjectFactory } from "./World";
+import { SimStream, SimState, EntityState, World, GameObjectType, GameObject, GameObjectFactory, copyEntity, createEntity } from "./World";
 import { vec3, mat4, vec4 } from "gl-matrix";
 import { DebugRenderUtils } from "./DebugRender";
 import { CollisionSystem, StaticCollisionSystem } from "./Collision";
-import { kEmptyCommand, UserCommand } from "./UserCommand";
+import { kEmptyCommand, UserCommand, UserCommandBuffer } from "./UserCommand";
 import { InputAction } from "./Input";
 import { EnvironmentSystem } from "./Environment";
 import { SideAttackBot, AvatarBotSystem, VertAttackBot, AvatarBot, BotFlags } from "./AvatarBot";
@@ -34,6 +34,8 @@ interface ServerDependencies {
 
     collision: CollisionSystem;
     staticCollision: StaticCollisionSystem;
+
+    avatarGltf?: GltfResource; // If defined, used instead of loading kGltfFilename. See BakedSkeleton.
 }
 
 interface ClientDependencies {
@@ -42,6 +44,7 @@ interface ClientDependencies {
     clock: Clock;
     weapons: WeaponSystem;
     world: World;
+    userCommands: UserCommandBuffer;
 
     gfxDevice: Renderer;
     camera: Camera;
@@ -51,6 +54,17 @@ interface ClientDependencies {
 
 export interface AvatarClient {
     getUserCommand(simFrame: number): UserCommand;
+
+    /**
+     * True while the client can't control its avatar, e.g. it is disconnected or in the background
+     */
+    isIdle?(): boolean;
+
+    /**
+     * The frame that this client was displaying when it produced the UserCommand for `simFrame`. Used to rewind targets 
+     * for lag compensation. If undefined, the client sees the current simulation frame (e.g. bots).
+     */
+    getViewFrame?(simFrame: number): number;
 }
 
 export class Avatar extends Object3D implements GameObject {
@@ -82,6 +96,7 @@ export enum AvatarFlags {
     IsActive = 1 << 0,
     IsWalking = 1 << 1,
     IsUTurning = 1 << 2,
+    IsKnockedOut = 1 << 3, // Remains in the Struck state until respawned. See MatchSystemServer.
 
     HasTarget = 1 << 4,
     _Target0 = 1 << 5,
@@ -91,6 +106,14 @@ export enum AvatarFlags {
 
 const kGltfFilename = 'data/Avatar.glb';
 export const kAvatarCount = 8;
+
+/**
+ * An avatar that was struck during a simulation frame. See AvatarSystemServer.hits.
+ */
+export interface AvatarHit {
+    attacker: number; // Avatar index
+    target: number;
+}
 const kBaseObb = mat4.fromValues(
     40, 0, 0, 0,
     0, 110, 0, 0,
@@ -106,6 +129,14 @@ const scratchVector3b = new Vector3(scratchVec3b);
 
 const kActiveTargetColor = vec4.fromValues(1, 0, 0, 0.7);
 
+const kPredictionBufferSize = 64; // Frames of predicted state history. Rewinds further than this are not possible.
+const kPredictionPosTolerance = 1.0; // Authoritative and predicted positions closer than this are considered equal
+const kPredictionOriTolerance = 0.01;
+const kCorrectionHalfLife = 0.1; // Seconds for a prediction correction to be reduced by half
+const kCorrectionSnapDistance = 300; // Corrections larger than this will snap instead of smoothing
+
+const kBotSpawnRadius = 700; // Bots added by setBotCount() are spread around a circle of this radius
+
 export class AvatarSystemClient implements GameObjectFactory {
     public localAvatar: Avatar; // @HACK:
 
@@ -116,6 +147,21 @@ export class AvatarSystemClient implements GameObjectFactory {
     private renderer: AvatarRender = new AvatarRender();
     private cameraSystem: CameraSystem;
 
+    // Prediction of the local avatar
+    private clock: Clock;
+    private world: World;
+    private userCommands: UserCommandBuffer;
+    private controller = new AvatarController();
+    private collision = new CollisionSystem(); // Hits are never predicted, they're always resolved by the server
+    private predicting = false;
+    private predictedStates: EntityState[] = [];
+    private predictedFrames: number[] = [];
+    private displayState: EntityState = createEntity();
+    private correction = vec3.create();
+
+    // Frames during which the server ignores our input, e.g. the countdown before a round. See freezeInput().
+    private frozenFrames = { start: -1, end: -1 };
+
     constructor() {
         for (let i = 0; i < kAvatarCount; i++) {
             this.avatars[i] = new Avatar();
@@ -125,6 +171,9 @@ export class AvatarSystemClient implements GameObjectFactory {
 
     initialize(game: ClientDependencies) {
         this.cameraSystem = game.cameraSystem;
+        this.clock = game.clock;
+        this.world = game.world;
+        this.userCommands = game.userCommands;
 
         game.world.registerFactory(GameObjectType.Avatar, this);
 
@@ -139,9 +188,22 @@ export class AvatarSystemClient implements GameObjectFactory {
         this.renderer.initialize(this.avatars, game.debugMenu, game.gfxDevice, game.resources);
     }
 
+    /**
+     * The server will ignore all commands for frames in [startFrame, endFrame). Predict the same.
+     */
+    freezeInput(startFrame: number, endFrame: number) {
+        this.frozenFrames.start = startFrame;
+        this.frozenFrames.end = endFrame;
+    }
+
+    getActiveAvatars() {
+        return this.avatars.filter(a => a.isActive);
+    }
+
     onJoined(clientIndex: number) {
         this.localAvatar = this.avatars[clientIndex];
         this.localAvatar.local = true;
+        this.predicting = false;
     }
 
     onResourcesLoaded(game: ClientDependencies) {
@@ -176,6 +238,20 @@ export class AvatarSystemClient implements GameObjectFactory {
     }
 
     update(game: ClientDependencies) {
+        // Display the local avatar at its predicted state for the current client frame, rather than the interpolated 
+        // server state, so that it responds to input immediately
+        if (this.predicting) {
+            const predicted = this.getPredictedState(game.clock.simFrame);
+            if (defined(predicted)) {
+                const dtSec = game.clock.renderDt / 1000.0;
+                vec3.scale(this.correction, this.correction, Math.pow(0.5, dtSec / kCorrectionHalfLife));
+
+                copyEntity(this.displayState, predicted);
+                vec3.add(this.displayState.origin, this.displayState.origin, this.correction);
+                this.localAvatar.state = this.displayState;
+            }
+        }
+
         for (const avatar of this.avatars) {
             const state = avatar.state;
             if (!state || !avatar.nodes) continue;
@@ -213,19 +289,105 @@ export class AvatarSystemClient implements GameObjectFactory {
             vec3.copy(avatar.cameraTarget.pos, avatar.state.origin);
             avatar.cameraTarget.pos[1] += 250;
             if (avatar.local) avatar.cameraTarget.pri = 0;
-            else avatar.cameraTarget.pri = this.localAvatar.target === avatar ? 1 : 2;
+            else avatar.cameraTarget.pri = (this.localAvatar.local && this.localAvatar.target === avatar) ? 1 : 2;
         }
 
         this.animation.update(game.clock);
     }
 
     updateFixed(game: ClientDependencies) {
-        // @TODO: Prediction
+        if (!this.predicting) return;
+
+        // Simulate the local avatar using our own input, without waiting for the server to do it 
+        const frame = game.clock.simFrame;
+        const cmd = game.userCommands.getUserCommand(frame);
+        if (defined(cmd)) this.predict(frame, cmd);
+    }
+
+    /**
+     * Called when an authoritative SimState arrives from the server. If our prediction for that frame was incorrect, 
+     * rewind the local avatar to the authoritative state and replay all of our commands since then.
+     */
+    onServerFrame(simState: SimState) {
+        const avatar = this.localAvatar;
+        if (!avatar.local || !defined(avatar.weapon)) return;
+
+        const auth = simState.entities.find(e => e.id === avatar.state.id);
+        if (!defined(auth) || !(auth.flags & AvatarFlags.IsActive)) return;
+
+        const frame = simState.frame;
+        const currentFrame = this.clock.simFrame;
+        if (frame > currentFrame || currentFrame - frame >= kPredictionBufferSize) {
+            // We can't replay from this state (either it's ahead of us, or too old), so start predicting from scratch
+            this.predicting = false;
+            return;
+        }
+
+        if (!this.predicting) {
+            this.controller.initialize(avatar, this.avatars, this.collision);
+            vec3.zero(this.correction);
+            this.predicting = true;
+        } else {
+            const predicted = this.getPredictedState(frame);
+            if (defined(predicted) && statesMatch(predicted, auth)) return;
+        }
+
+        // Rewind to the authoritative state... 
+        const dtSec = this.clock.simDt / 1000.0;
+        const before = this.getPredictedState(currentFrame);
+        const prevFrame = frame - 1;
+        const prevAuth = this.world.stream.hasState(prevFrame) ? 
+            this.world.stream.getState(prevFrame).entities.find(e => e.id === auth.id) : undefined;
+
+        this.controller.rewind(avatar, this.avatars, frame, dtSec, auth, prevAuth);
+        this.setPredictedState(frame, avatar.state);
+
+        // ... and replay all the commands that the server has not yet processed
+        for (let i = frame + 1; i <= currentFrame; i++) {
+            const cmd = defaultValue(this.userCommands.getUserCommand(i), kEmptyCommand);
+            this.predict(i, cmd);
+        }
+        avatar.state = this.displayState;
+
+        // Smooth out the visible difference between the old and new predictions, unless it's too big to hide
+        const after = this.getPredictedState(currentFrame);
+        if (defined(before) && defined(after)) {
+            const error = vec3.subtract(scratchVec3a, before.origin, after.origin);
+            vec3.add(this.correction, this.correction, error);
+            if (vec3.length(this.correction) > kCorrectionSnapDistance) vec3.zero(this.correction);
+        }
+    }
+
+    private predict(frame: number, cmd: UserCommand) {
+        const avatar = this.localAvatar;
+        if (frame >= this.frozenFrames.start && frame < this.frozenFrames.end) cmd = kEmptyCommand;
+
+        const prevState = this.getPredictedState(frame - 1);
+        if (!defined(prevState)) return;
+
+        avatar.state = copyEntity(createEntity(), prevState);
+
+        const dtSec = this.clock.simDt / 1000.0;
+        const state = this.controller.update(avatar, this.avatars, frame, dtSec, cmd, this.collision);
+        this.setPredictedState(frame, state);
+
+        // World.loadState() writes into the avatar's state object, make sure it can't overwrite our prediction history
+        avatar.state = this.displayState;
+    }
+
+    private setPredictedState(frame: number, state: EntityState) {
+        this.predictedStates[frame % kPredictionBufferSize] = state;
+        this.predictedFrames[frame % kPredictionBufferSize] = frame;
+    }
+
+    private getPredictedState(frame: number): EntityState | undefined {
+        const idx = frame % kPredictionBufferSize;
+        return this.predictedFrames[idx] === frame ? this.predictedStates[idx] : undefined;
     }
 
     render(game: ClientDependencies) {
         // @HACK:
-        if (this.localAvatar.target) {
+        if (this.localAvatar.local && this.localAvatar.target) {
             const target = this.localAvatar.target;
             const pos = vec3.copy(scratchVec3a, target.state.origin);
             pos[1] += 300;
@@ -253,11 +415,31 @@ export class AvatarSystemClient implements GameObjectFactory {
     }
 }
 
+function statesMatch(a: EntityState, b: EntityState) {
+    return a.state === b.state && 
+        a.stateStartFrame === b.stateStartFrame &&
+        vec3.distance(a.origin, b.origin) < kPredictionPosTolerance &&
+        vec3.distance(a.orientation, b.orientation) < kPredictionOriTolerance;
+}
+
 export class AvatarSystemServer implements GameObjectFactory {
     private avatars: Avatar[] = [];
     private controllers: AvatarController[] = [];
     private bots: AvatarBotSystem = new AvatarBotSystem(this, this.avatars);
 
+    // Every avatar that entered the Struck state during the last fixed frame
+    hits: AvatarHit[] = [];
+
+    // The command that each avatar followed during the last fixed frame, or undefined if it was inactive
+    commands: (UserCommand | undefined)[] = [];
+
+    // While frozen, all commands are ignored (e.g. during the countdown before a round)
+    inputFrozen = false;
+
+    // A room setting. If true, bots control the avatars of idle players, and replace players whose sessions expire.
+    botTakeover = true;
+    private standIns: AvatarBot[] = [];
+
     private gltf: GltfResource;
     private animation = new AvatarAnim();
 
@@ -276,22 +458,32 @@ export class AvatarSystemServer implements GameObjectFactory {
             this.controllers[i].initialize(this.avatars[i], this.avatars, game.collision);
         }
 
-        // Start loading all necessary resources
-        game.resources.load(kGltfFilename, 'gltf', (error, resource) => {
-            if (error) { return console.error(`Failed to load resource`, error); }
-            this.gltf = resource as GltfResource;
-            this.onResourcesLoaded(game);
-        });
+        // Each avatar has a bot which stands in for its client while the client is idle 
+        for (let i = 0; i < kAvatarCount; i++) {
+            const bot = new AvatarBot(BotFlags.AutoTarget);
+            bot.avatars = this.avatars;
+            bot.avatar = this.avatars[i];
+            this.standIns[i] = bot;
+        }
 
         this.animation.initialize(this.avatars);
 
+        // Start loading all necessary resources, unless they were provided
+        if (game.avatarGltf) this.onResourcesLoaded(game, game.avatarGltf);
+        else game.resources.load(kGltfFilename, 'gltf', (error, resource) => {
+            if (error) { return console.error(`Failed to load resource`, error); }
+            this.onResourcesLoaded(game, resource as GltfResource);
+        });
+
         // Let's add a bot
         // this.bots.addBot(new SideAttackBot(BotFlags.AutoTarget), vec3.set(scratchVec3a, -500, 0, 500));
         // this.bots.addBot(new VertAttackBot(0), vec3.set(scratchVec3a, -500, 0, -500));
         this.bots.addBot(new AvatarBot(BotFlags.AutoTarget), vec3.set(scratchVec3a, -500, 0, -500));
     }
 
-    onResourcesLoaded(game: ServerDependencies) {
+    onResourcesLoaded(game: ServerDependencies, gltf: GltfResource) {
+        this.gltf = gltf;
+
         for (const avatar of this.avatars) {
             // Clone all nodes
             avatar.nodes = this.gltf.nodes.map(src => src.clone(false));
@@ -354,9 +546,11 @@ export class AvatarSystemServer implements GameObjectFactory {
             const avatar = this.avatars[i];
             const state = avatar.state;
 
+            this.commands[i] = undefined;
             if (!avatar.isActive) continue;
 
-            const inputCmd = avatar.client!.getUserCommand(game.clock.simFrame);
+            const inputCmd = this.getUserCommand(i, game.clock.simFrame);
+            this.commands[i] = inputCmd;
 
             // Update core state
             const dtSec = game.clock.simDt / 1000.0;
@@ -415,24 +609,66 @@ export class AvatarSystemServer implements GameObjectFactory {
                 const attackFrame = (game.clock.simFrame - avatar.state.stateStartFrame);
                 const attackPeriod = avatar.attack.def.attackPeriod;
                 if (attackFrame >= attackPeriod[0] && attackFrame <= attackPeriod[1]) {
-                    game.collision.addAttackRegion({ verts: avatar.weapon.attackQuad }, avatar.attack);
+                    const client = avatar.client!;
+                    const viewFrame = client.getViewFrame ? client.getViewFrame(game.clock.simFrame) : undefined;
+                    game.collision.addAttackRegion({ verts: avatar.weapon.attackQuad }, avatar.attack, viewFrame);
                 }
             }
         }
     }
 
     updateFixedLate({ collision, clock }: { collision: CollisionSystem, clock: Clock }) {
+        this.hits.length = 0;
+
         // Once all the avatar positions have been fully resolved, check for hits
         for (let i = 0; i < this.avatars.length; i++) {
             const avatar = this.avatars[i];
             if (avatar.isActive) {
                 const dtSec = clock.simDt / 1000.0;
-                const inputCmd = avatar.client!.getUserCommand(clock.simFrame);
+                const inputCmd = this.getUserCommand(i, clock.simFrame);
+                const wasStruck = avatar.state.state === AvatarState.Struck;
                 this.controllers[i].updateLate(avatar, this.avatars, clock.simFrame, dtSec, inputCmd, collision);
+
+                if (!wasStruck && avatar.state.state === AvatarState.Struck) {
+                    this.hits.push({ attacker: avatar.hitBy[0].instigator.state.id, target: i });
+                }
             }
         }
     }
 
+    /**
+     * @returns The command from the avatar's client, or from its stand-in if the client is idle
+     */
+    private getUserCommand(avatarIdx: number, frame: number) {
+        const client = this.avatars[avatarIdx].client!;
+        const cmd = client.getUserCommand(frame);
+
+        if (this.inputFrozen) return kEmptyCommand;
+        if (this.botTakeover && client.isIdle && client.isIdle()) return this.standIns[avatarIdx].getUserCommand(frame);
+        return cmd;
+    }
+
+    /**
+     * Instantly move an avatar to a new position, and return it to the default state
+     */
+    respawn(avatarIdx: number, origin: vec3, orientation: vec3, frame: number) {
+        const avatar = this.avatars[avatarIdx];
+        const state = copyEntity(createEntity(), avatar.state);
+        vec3.copy(state.origin, origin);
+        vec3.copy(state.orientation, orientation);
+        state.state = AvatarState.None;
+        state.stateStartFrame = frame;
+        state.speed = 0;
+        state.flags &= ~AvatarFlags.IsKnockedOut;
+
+        avatar.hitBy.length = 0;
+        this.controllers[avatarIdx].rewind(avatar, this.avatars, frame, 0, state);
+    }
+
+    setKnockedOut(avatarIdx: number) {
+        this.avatars[avatarIdx].state.flags |= AvatarFlags.IsKnockedOut;
+    }
+
     createGameObject(initialState: EntityState) {
         const avatar = new Avatar();
         avatar.state = initialState;
@@ -449,16 +685,87 @@ export class AvatarSystemServer implements GameObjectFactory {
     }
 
     addAvatar(client: AvatarClient) {
-        // @TODO: Take over a bot slot?
-        const avatarIdx = assertDefined(this.avatars.findIndex(a => !a.isActive), 'Out of avatars');
+        // If there are no unused avatars, take over a bot's. The avatar stays where it is, the new client just continues.
+        let avatarIdx = this.avatars.findIndex(a => !a.isActive);
+        if (avatarIdx < 0) {
+            avatarIdx = this.avatars.findIndex(a => a.isBot);
+            if (avatarIdx >= 0) this.bots.removeBot(this.avatars[avatarIdx]);
+        }
+        assert(avatarIdx >= 0, 'Out of avatars');
         this.avatars[avatarIdx].state.flags |= AvatarFlags.IsActive;
         this.avatars[avatarIdx].client = client;
 
         return avatarIdx;
     }
 
+    /**
+     * Add or remove bots until `count` avatars are controlled by bots. Bots are only added to unused avatars.
+     */
+    setBotCount(count: number) {
+        while (this.bots.bots.length < count && this.avatars.some(a => !a.isActive)) {
+            const angle = this.bots.bots.length * 2 * Math.PI / kAvatarCount;
+            const pos = vec3.set(scratchVec3a, Math.cos(angle) * kBotSpawnRadius, 0, Math.sin(angle) * kBotSpawnRadius);
+            this.bots.addBot(new AvatarBot(BotFlags.AutoTarget), pos);
+        }
+
+        while (this.bots.bots.length > count) {
+            const avatar = this.bots.bots[this.bots.bots.length - 1].avatar;
+            this.bots.removeBot(avatar);
+            avatar.client = null;
+            avatar.state.flags &= ~AvatarFlags.IsActive;
+        }
+    }
+
+    hasFreeAvatar() {
+        return this.avatars.some(a => !a.isActive || a.isBot);
+    }
+
+    /**
+     * @returns The indices of all avatars that are controlled by a client or a bot
+     */
+    getActiveAvatars() {
+        const indices: number[] = [];
+        for (let i = 0; i < this.avatars.length; i++) {
+            if (this.avatars[i].isActive) indices.push(i);
+        }
+        return indices;
+    }
+
+    getSkeleton(avatarIdx: number): Skeleton | undefined {
+        return this.avatars[avatarIdx]?.skeleton;
+    }
+
+    /**
+     * @returns The indices of all avatars that are active but have no client, e.g. after loading a previous host's state
+     */
+    getOrphanedAvatars() {
+        const indices: number[] = [];
+        for (let i = 0; i < this.avatars.length; i++) {
+            if (this.avatars[i].isActive && !this.avatars[i].client) indices.push(i);
+        }
+        return indices;
+    }
+
+    /**
+     * Give control of an existing avatar to a new client, e.g. when a disconnected client reconnects
+     */
+    setAvatarClient(avatarIdx: number, client: AvatarClient) {
+        const avatar = this.avatars[avatarIdx];
+        assert(avatar.isActive, 'Avatar is not active');
+        avatar.client = client;
+    }
+
     removeAvatar(client: AvatarClient) {
-        const avatar = assertDefined(this.avatars.find(a => a.client === client));
+        const avatarIdx = this.avatars.findIndex(a => a.client === client);
+        assert(avatarIdx >= 0);
+
+        // Keep the avatar in the game, so that the remaining players can finish their round
+        if (this.botTakeover) {
+            this.bots.takeOver(new AvatarBot(BotFlags.AutoTarget), avatarIdx);
+            return;
+        }
+
+        const avatar = this.avatars[avatarIdx];
         avatar.client = null;
         avatar.state.flags &= ~AvatarFlags.IsActive;
     }
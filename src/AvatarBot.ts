@@ -2,7 +2,7 @@ import { AvatarClient, AvatarSystemServer, Avatar } from "./Avatar";
 import { UserCommand } from "./UserCommand";
 import { InputAction } from "./Input";
 import { vec3 } from "gl-matrix";
-import { defined } from "./util";
+import { defined, arrayRemove } from "./util";
 
 export enum BotFlags {
   AutoTarget = 1 << 0, // When targeted, automatically target back 
@@ -89,4 +89,24 @@ export class AvatarBotSystem {
     if (pos) vec3.normalize(bot.avatar.state.orientation, vec3.negate(bot.avatar.state.orientation, pos));
     this.bots.push(bot);
   }
+
+  /**
+   * Give a bot control of an avatar that is already active, e.g. after its player has left. The avatar is not moved.
+   */
+  takeOver(bot: AvatarBot, avatarIdx: number) {
+    this.avatarSystem.setAvatarClient(avatarIdx, bot);
+    bot.avatars = this.avatars;
+    bot.avatar = this.avatars[avatarIdx];
+    bot.avatar.isBot = true;
+    this.bots.push(bot);
+  }
+
+  /**
+   * Stop tracking the bot that controls an avatar, so that its slot can be given to a player
+   */
+  removeBot(avatar: Avatar) {
+    const bot = this.bots.find(b => b.avatar === avatar);
+    if (defined(bot)) arrayRemove(this.bots, bot);
+    avatar.isBot = false;
+  }
 }
\ No newline at end of file
@@ -48,6 +48,15 @@ abstract class AvatarStateController {
     // @NOTE: Both entry and exit are called before simulate, and may modify the context.state
     abstract exit(context: SimContext): void;
 
+    // Called when the avatar is forced into this state from an externally provided EntityState, e.g. when rewinding
+    // to an authoritative state from the server. Unlike enter(), this must not assume anything about previous frames.
+    // @NOTE: prevState, if provided, is the avatar's state from the frame immediately before context.state
+    restore(context: SimContext, prevState?: EntityState): void {
+        this.startFrame = context.state.stateStartFrame;
+        this.state = context.state.state;
+        context.avatar.attack = null;
+    }
+
     // Determines the state of the avatar for this frame. If it differs from last frame, a state transition occurs.
     // exit() and enter() will then be called, before the new state controller's simulate() is called.
     abstract evaluate(context: SimContext): AvatarState;
@@ -131,6 +140,15 @@ class AttackRoll extends AvatarStateController {
         context.avatar.attack = null;
     }
 
+    restore(context: SimContext, prevState?: EntityState) {
+        super.restore(context, prevState);
+        context.avatar.attack = new Attack(context.avatar, this.state);
+
+        // The roll origin is captured at the start of the move period. If we're restoring past that point, the best 
+        // guess we have is the origin of the previous state.
+        vec3.copy(this.rollOrigin, defined(prevState) ? prevState.origin : context.state.origin);
+    }
+
     evaluate(context: SimContext): AvatarState {
         const duration = context.frame - context.state.stateStartFrame;
         if (duration >= context.avatar.attack!.def.duration) { // @HACK: Need to set up proper exiting
@@ -209,6 +227,11 @@ class AttackBase extends AvatarStateController {
         context.avatar.attack = null;
     }
 
+    restore(context: SimContext, prevState?: EntityState) {
+        super.restore(context, prevState);
+        context.avatar.attack = new Attack(context.avatar, this.state);
+    }
+
     evaluate(context: SimContext): AvatarState {
         const duration = context.frame - context.state.stateStartFrame;
         if (duration >= context.avatar.attack!.def.duration) { // @HACK: Need to set up proper exiting
@@ -287,10 +310,23 @@ class Struck extends AvatarStateController {
         vec3.zero(this.hitVelocity);
     }
 
+    restore(context: SimContext, prevState?: EntityState) {
+        super.restore(context, prevState);
+
+        // The attacker is not part of the EntityState, so reconstruct the hit velocity from the last frame's motion
+        if (defined(prevState) && context.state.origin[1] > 0.0) {
+            vec3.sub(this.hitVelocity, context.state.origin, prevState.origin);
+            vec3.scale(this.hitVelocity, this.hitVelocity, 1.0 / context.dtSec);
+        } else {
+            vec3.zero(this.hitVelocity);
+        }
+    }
+
     evaluate(context: SimContext) {
         const duration = context.frame - context.state.stateStartFrame;
 
-        if (duration > 34 && context.state.origin[1] <= 0.0) {
+        const knockedOut = (context.state.flags & AvatarFlags.IsKnockedOut) > 0;
+        if (duration > 34 && context.state.origin[1] <= 0.0 && !knockedOut) {
             return AvatarState.None;
         }
         
@@ -456,8 +492,10 @@ class Default extends AvatarStateController {
  */
 export class AvatarController {
     stateControllers: Partial<Record<AvatarState, AvatarStateController>>;
+    private collision: CollisionSystem;
 
     initialize(avatar: Avatar, avatars: Avatar[], collision: CollisionSystem) {
+        this.collision = collision;
         this.stateControllers = {
             [AvatarState.None]: new Default(),
             [AvatarState.AttackPunch]: new AttackRoll(),
@@ -494,6 +532,19 @@ export class AvatarController {
         return state;
     }
 
+    /**
+     * Force the avatar into a specific state, such as an authoritative state received from the server. Subsequent 
+     * calls to update() will simulate forward from this state.
+     * @param prevState The avatar's state on the frame before `state`, if known. Used to reconstruct velocities.
+     */
+    rewind(avatar: Avatar, avatars: Avatar[], frame: number, dtSec: number, state: EntityState, prevState?: EntityState) {
+        avatar.state = copyEntity(createEntity(), state);
+
+        const context: SimContext = { avatar, avatars, frame, dtSec, input: kEmptyCommand, collision: this.collision, state: avatar.state };
+        const stateCtrl = assertDefined(this.stateControllers[state.state as AvatarState]);
+        stateCtrl.restore(context, prevState);
+    }
+
     updateLate(avatar: Avatar, avatars: Avatar[], frame: number, dtSec: number, input: UserCommand, collision: CollisionSystem) {
         const context: SimContext = { avatar, avatars, frame, dtSec, input, collision, state: avatar.state };
         
@@ -507,7 +558,10 @@ export class AvatarController {
             stateCtrl.exit(context); 
             nextStateCtrl.enter(context, nextState);
 
+            // Like simulate(), record when the state began. Otherwise the next update() would see a stale start frame,
+            // e.g. Struck would end immediately and be re-entered (and scored) on the following frame.
             avatar.state.state = nextState;
+            avatar.state.stateStartFrame = frame;
         } 
     }
 }
\ No newline at end of file
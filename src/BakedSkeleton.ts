@@ -0,0 +1,141 @@
+// --------------------------------------------------------------------------------
+// A stand-in for the avatar model (data/Avatar.glb), built in code so that the server's simulation can run without
+// loading any resources, e.g. in the headless simulation harness. It has the bones and animation clips that the
+// AvatarSystemServer requires, with simple proportions. The attack clips swing the weapon through the same periods as
+// the real animations, so that hits can be resolved, but their poses are only an approximation.
+// --------------------------------------------------------------------------------
+import { mat4 } from 'gl-matrix';
+import { GltfResource, GltfNode, GltfSkin } from './resources/Gltf';
+import { ResourceStatus } from './resources/Resource';
+import { AnimationClip, KeyframeTrack, QuaternionKeyframeTrack } from './Animation';
+
+interface BoneDef {
+    name: string;
+    parent?: string;
+    translation: [number, number, number]; // Relative to the parent. The avatar faces +Z, so its right is -X.
+}
+
+interface ClipDef {
+    name: string;
+    duration: number; // Seconds
+    tracks: KeyframeTrack[];
+}
+
+// The sword is held out in front of the chest, so that it is centered on the avatar's forward axis
+const kBones: BoneDef[] = [
+    { name: 'pelvis', translation: [0, 100, 0] },
+    { name: 'spine', parent: 'pelvis', translation: [0, 30, 0] },
+    { name: 'chest', parent: 'spine', translation: [0, 30, 0] },
+    { name: 'neck', parent: 'chest', translation: [0, 30, 0] },
+    { name: 'head', parent: 'neck', translation: [0, 20, 0] },
+
+    { name: 'shoulder.l', parent: 'chest', translation: [25, 25, 0] },
+    { name: 'arm.l', parent: 'shoulder.l', translation: [15, 0, 0] },
+    { name: 'forearm.l', parent: 'arm.l', translation: [0, -30, 0] },
+    { name: 'hand.l', parent: 'forearm.l', translation: [0, -30, 0] },
+
+    { name: 'shoulder.r', parent: 'chest', translation: [-25, 25, 0] },
+    { name: 'arm.r', parent: 'shoulder.r', translation: [-15, 0, 0] },
+    { name: 'forearm.r', parent: 'arm.r', translation: [20, -25, 15] },
+    { name: 'hand.r', parent: 'forearm.r', translation: [20, 0, 30] },
+    { name: 'item.r', parent: 'hand.r', translation: [0, 0, 5] },
+
+    { name: 'thigh.l', parent: 'pelvis', translation: [12, -5, 0] },
+    { name: 'shin.l', parent: 'thigh.l', translation: [0, -45, 0] },
+    { name: 'foot.l', parent: 'shin.l', translation: [0, -40, 0] },
+
+    { name: 'thigh.r', parent: 'pelvis', translation: [-12, -5, 0] },
+    { name: 'shin.r', parent: 'thigh.r', translation: [0, -45, 0] },
+    { name: 'foot.r', parent: 'shin.r', translation: [0, -40, 0] },
+];
+
+// Attack states last 90 frames. See Attack.ts.
+const kAttackDuration = 90 * 0.016;
+
+const kClips: ClipDef[] = [
+    { name: 'akamae1', duration: 2.0, tracks: [] }, // Idle
+    { name: 'awalk1', duration: 1.0, tracks: [] },
+    { name: 'brun1', duration: 0.7, tracks: [] },
+    { name: 'ahakai1', duration: 0.6, tracks: [] }, // Struck
+
+    // Side attack: Wind up to the right, then sweep across to the left during the attack period (frames 29-46)
+    { name: 'bat_yoko1', duration: kAttackDuration, tracks: [
+        rotationTrack('chest', [0.0, 0.4, 0.8, kAttackDuration], [0, 1, 0], [0, -70, 70, 0]),
+    ] },
+
+    // Vertical attack: Raise the sword overhead, then bring it down during the attack period (frames 36-44)
+    { name: 'bat_jump1', duration: kAttackDuration, tracks: [
+        rotationTrack('shoulder.r', [0.0, 0.55, 0.72, kAttackDuration], [1, 0, 0], [0, -100, 30, 0]),
+    ] },
+
+    // Punch: Thrust straight ahead, no rotation required
+    { name: 'at_roll2', duration: kAttackDuration, tracks: [] },
+];
+
+/**
+ * @returns A track which rotates a bone about a single axis
+ * @param degrees The angle at each of the key `times`
+ */
+function rotationTrack(boneName: string, times: number[], axis: [number, number, number], degrees: number[]) {
+    const values: number[] = [];
+    for (const angle of degrees) {
+        const halfAngle = angle * Math.PI / 360;
+        const s = Math.sin(halfAngle);
+        values.push(axis[0] * s, axis[1] * s, axis[2] * s, Math.cos(halfAngle));
+    }
+
+    // ThreeJS has mistyped these. They should be ArrayLike<number>
+    return new QuaternionKeyframeTrack(`${boneName}.quaternion`, times as any, values as any);
+}
+
+/**
+ * Build the baked avatar model. It contains only the parts of a GltfResource that the AvatarSystemServer uses: the
+ * node hierarchy, a skin and the animation clips. There are no meshes, so it can't be rendered.
+ */
+export function createBakedAvatarGltf(): GltfResource {
+    // Node 0 is the root, which is not a bone. Its children are the bones, in the order of kBones.
+    const root = new GltfNode();
+    root.name = 'Armature';
+
+    const nodes = [root];
+    for (const def of kBones) {
+        const node = new GltfNode();
+        node.name = def.name;
+        node.position.set(def.translation[0], def.translation[1], def.translation[2]);
+
+        const parent = def.parent ? nodes.find(n => n.name === def.parent)! : root;
+        parent.add(node);
+        nodes.push(node);
+    }
+
+    // The bind pose is the pose in which the skeleton is built
+    root.updateMatrixWorld(true);
+    const joints = kBones.map((def, i) => i + 1);
+    const skin: GltfSkin = {
+        name: 'Armature',
+        joints,
+        inverseBindMatrices: joints.map(jointId => {
+            return mat4.invert(mat4.create(), new Float32Array(nodes[jointId].matrixWorld.elements) as mat4);
+        }),
+    };
+
+    const animations = kClips.map(def => new AnimationClip(def.name, def.duration, def.tracks));
+
+    return {
+        source: { uri: 'BakedSkeleton', type: 'gltf' },
+        status: ResourceStatus.Loaded,
+        transferList: [],
+
+        nodes,
+        skins: [skin],
+        animations,
+        rootNodeIds: [0],
+
+        meshes: [],
+        materials: [],
+        textures: [],
+        bufferViews: [],
+        techniques: [],
+        bufferData: [],
+    } as Partial<GltfResource> as GltfResource; // There is no transient data, as nothing was loaded
+}
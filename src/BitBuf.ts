@@ -0,0 +1,323 @@
+import { vec3 } from "gl-matrix";
+import { Buf } from "./Buf";
+import { assert, assertDefined } from "./util";
+
+/**
+ * A bit-level reader/writer built on top of Buf. Bits are packed least-significant first, so the first N bits written
+ * occupy the low N bits of the first byte. A BitBuf should be used for either reading or writing, but not both.
+ * @NOTE: Partially written bytes are not committed to the Buf until flush() is called. Readers must call align() to
+ *        skip the padding bits before reading from the Buf directly.
+ */
+export class BitBuf {
+    buf: Buf;
+
+    // Bits which have been written but not yet flushed, or read from the Buf but not yet consumed
+    scratch: number = 0;
+    scratchBits: number = 0;
+
+    constructor(buf: Buf) {
+        this.buf = buf;
+    }
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function bitsForCount(count: number) {
+    let bits = 0;
+    while (2 ** bits < count) bits += 1;
+    assert(bits <= 32, 'Quantize: Too many bits');
+    return bits;
+}
+
+export namespace BitBuf {
+    export function writeBits(bb: BitBuf, value: number, bitCount: number) {
+        assert(bitCount >= 0 && bitCount <= 32);
+
+        while (bitCount > 0) {
+            const n = Math.min(bitCount, 8 - bb.scratchBits);
+            bb.scratch |= (value & ((1 << n) - 1)) << bb.scratchBits;
+            bb.scratchBits += n;
+            bitCount -= n;
+            value = value >>> n;
+
+            if (bb.scratchBits === 8) {
+                Buf.writeByte(bb.buf, bb.scratch);
+                bb.scratch = 0;
+                bb.scratchBits = 0;
+            }
+        }
+    }
+
+    /**
+     * @returns The next `bitCount` bits as an unsigned integer
+     */
+    export function readBits(bb: BitBuf, bitCount: number) {
+        assert(bitCount >= 0 && bitCount <= 32);
+
+        let value = 0;
+        let scale = 1;
+        while (bitCount > 0) {
+            if (bb.scratchBits === 0) {
+                bb.scratch = Buf.readByte(bb.buf);
+                bb.scratchBits = 8;
+            }
+
+            const n = Math.min(bitCount, bb.scratchBits);
+            const bits = bb.scratch & ((1 << n) - 1);
+            bb.scratch >>= n;
+            bb.scratchBits -= n;
+            bitCount -= n;
+
+            // Avoid bitwise ops when accumulating so that 32-bit values don't overflow into the sign bit
+            value += bits * scale;
+            scale *= (1 << n);
+        }
+
+        return value;
+    }
+
+    export function peekBits(bb: BitBuf, bitCount: number) {
+        const offset = bb.buf.offset;
+        const scratch = bb.scratch;
+        const scratchBits = bb.scratchBits;
+
+        const value = readBits(bb, bitCount);
+
+        bb.buf.offset = offset;
+        bb.scratch = scratch;
+        bb.scratchBits = scratchBits;
+
+        return value;
+    }
+
+    /**
+     * Write a UTF-8 string, prefixed by its length in bytes. Strings longer than maxBytes are truncated, which may split
+     * the final character. The reader must use the same maxBytes.
+     */
+    export function writeString(bb: BitBuf, str: string, maxBytes: number) {
+        const bytes = textEncoder.encode(str);
+        const length = Math.min(bytes.byteLength, maxBytes);
+
+        writeBits(bb, length, bitsForCount(maxBytes + 1));
+        for (let i = 0; i < length; i++) {
+            writeBits(bb, bytes[i], 8);
+        }
+    }
+
+    export function readString(bb: BitBuf, maxBytes: number) {
+        const length = Math.min(readBits(bb, bitsForCount(maxBytes + 1)), maxBytes);
+        const bytes = new Uint8Array(length);
+        for (let i = 0; i < length; i++) {
+            bytes[i] = readBits(bb, 8);
+        }
+
+        return textDecoder.decode(bytes);
+    }
+
+    /**
+     * Write any partially filled byte to the Buf, padding with zeros. The next write will begin on a byte boundary.
+     */
+    export function flush(bb: BitBuf) {
+        if (bb.scratchBits > 0) Buf.writeByte(bb.buf, bb.scratch);
+        bb.scratch = 0;
+        bb.scratchBits = 0;
+    }
+
+    /**
+     * Discard the remaining (padding) bits of the current byte. The next read will begin on a byte boundary.
+     */
+    export function align(bb: BitBuf) {
+        bb.scratch = 0;
+        bb.scratchBits = 0;
+    }
+
+    /**
+     * Write every field of `src` that is described by the schema, in the schema's declaration order
+     */
+    export function write<T>(bb: BitBuf, schema: Schema<T>, src: T) {
+        for (const key in schema) {
+            assertDefined<Quantizer<T[typeof key]>>(schema[key]).write(bb, src[key]);
+        }
+    }
+
+    /**
+     * Read every field described by the schema into `dst`. Object fields (e.g. vec3) are read in place.
+     */
+    export function read<T>(bb: BitBuf, schema: Schema<T>, dst: T) {
+        for (const key in schema) {
+            dst[key] = assertDefined<Quantizer<T[typeof key]>>(schema[key]).read(bb, dst[key]);
+        }
+        return dst;
+    }
+}
+
+// --------------------------------------------------------------------------------
+// Quantization
+// --------------------------------------------------------------------------------
+/**
+ * Describes how a single value is reduced to a fixed number of bits. Quantizers are stateless, so they can (and
+ * should) be created once at module scope and shared. Values that are out of range will throw in PARANOID builds and
+ * be clamped otherwise.
+ */
+export interface Quantizer<T> {
+    readonly bits: number;
+    write(bb: BitBuf, value: T): void;
+    read(bb: BitBuf, dst: T): T;
+}
+
+/**
+ * A declarative description of how to serialize an object. Fields are written in declaration order.
+ * E.g. `{ frame: Quantize.int32, origin: Quantize.vector(Quantize.fixed(-1024, 1024, 1/16)) }`
+ */
+export type Schema<T> = { [K in keyof T]?: Quantizer<T[K]> };
+
+export namespace Quantize {
+    const kMaxInt = 2 ** 31 - 1;
+    const kMinInt = -(2 ** 31);
+
+    export const bool: Quantizer<boolean> = {
+        bits: 1,
+        write: (bb: BitBuf, value: boolean) => BitBuf.writeBits(bb, value ? 1 : 0, 1),
+        read: (bb: BitBuf) => BitBuf.readBits(bb, 1) === 1,
+    };
+
+    /**
+     * An integer in the range [min, max] (inclusive)
+     */
+    export function int(min: number, max: number): Quantizer<number> {
+        assert(Number.isInteger(min) && Number.isInteger(max) && max > min);
+        const bits = bitsForCount(max - min + 1);
+
+        return {
+            bits,
+            write: (bb: BitBuf, value: number) => {
+                //@ts-ignore
+                if (ENV.PARANOID) {
+                    if (!Number.isInteger(value))
+                        throw new Error('Quantize.int: type error');
+
+                    if (value < min || value > max)
+                        throw new Error('Quantize.int: range error');
+                }
+
+                BitBuf.writeBits(bb, Math.min(Math.max(value, min), max) - min, bits);
+            },
+            read: (bb: BitBuf) => BitBuf.readBits(bb, bits) + min,
+        };
+    }
+
+    export const int32 = int(kMinInt, kMaxInt);
+
+    /**
+     * A real number in the range [min, max], rounded to the nearest multiple of `precision` from min
+     */
+    export function fixed(min: number, max: number, precision: number): Quantizer<number> {
+        assert(max > min && precision > 0);
+        const steps = Math.ceil((max - min) / precision - 1e-6); // Tolerate floating point error
+        const bits = bitsForCount(steps + 1);
+
+        return {
+            bits,
+            write: (bb: BitBuf, value: number) => {
+                //@ts-ignore
+                if (ENV.PARANOID) {
+                    if (!Number.isFinite(value))
+                        throw new Error('Quantize.fixed: type error');
+
+                    if (value < min || value > max)
+                        throw new Error('Quantize.fixed: range error');
+                }
+
+                const q = Math.round((value - min) / precision);
+                BitBuf.writeBits(bb, Math.min(Math.max(q, 0), steps), bits);
+            },
+            read: (bb: BitBuf) => min + BitBuf.readBits(bb, bits) * precision,
+        };
+    }
+
+    /**
+     * An angle in radians. Any value is accepted, and it will be wrapped to [0, 2PI) when read.
+     */
+    export function angle(bits: number): Quantizer<number> {
+        const count = 2 ** bits;
+
+        return {
+            bits,
+            write: (bb: BitBuf, value: number) => {
+                //@ts-ignore
+                if (ENV.PARANOID) {
+                    if (!Number.isFinite(value))
+                        throw new Error('Quantize.angle: type error');
+                }
+
+                const q = Math.round(value * count / (Math.PI * 2)) % count;
+                BitBuf.writeBits(bb, q < 0 ? q + count : q, bits);
+            },
+            read: (bb: BitBuf) => BitBuf.readBits(bb, bits) * (Math.PI * 2) / count,
+        };
+    }
+
+    /**
+     * A vector whose components are each quantized independently
+     */
+    export function vector(component: Quantizer<number>): Quantizer<vec3> {
+        return {
+            bits: component.bits * 3,
+            write: (bb: BitBuf, value: vec3) => {
+                component.write(bb, value[0]);
+                component.write(bb, value[1]);
+                component.write(bb, value[2]);
+            },
+            read: (bb: BitBuf, dst: vec3) => {
+                dst[0] = component.read(bb, dst[0]);
+                dst[1] = component.read(bb, dst[1]);
+                dst[2] = component.read(bb, dst[2]);
+                return dst;
+            },
+        };
+    }
+
+    /**
+     * A unit length vector, using the octahedral encoding with `bits` bits for each of its two components.
+     * The Y axis is used as the octahedron's pole, so vectors in the XZ plane are represented well.
+     * @see https://knarkowicz.wordpress.com/2014/04/16/octahedron-normal-vector-encoding/
+     */
+    export function normal(bits: number): Quantizer<vec3> {
+        const component = fixed(-1, 1, 2 / (2 ** bits - 1));
+        const signNotZero = (v: number) => v >= 0 ? 1 : -1;
+
+        return {
+            bits: component.bits * 2,
+            write: (bb: BitBuf, value: vec3) => {
+                const l1 = Math.abs(value[0]) + Math.abs(value[1]) + Math.abs(value[2]);
+
+                //@ts-ignore
+                if (ENV.PARANOID) {
+                    if (!Number.isFinite(l1) || l1 === 0)
+                        throw new Error('Quantize.normal: type error');
+                }
+
+                let u = l1 > 0 ? value[0] / l1 : 0;
+                let v = l1 > 0 ? value[2] / l1 : 0;
+                if (value[1] < 0) {
+                    const fu = (1 - Math.abs(v)) * signNotZero(u);
+                    const fv = (1 - Math.abs(u)) * signNotZero(v);
+                    u = fu; v = fv;
+                }
+
+                component.write(bb, Math.min(Math.max(u, -1), 1));
+                component.write(bb, Math.min(Math.max(v, -1), 1));
+            },
+            read: (bb: BitBuf, dst: vec3) => {
+                const u = component.read(bb, 0);
+                const v = component.read(bb, 0);
+
+                const y = 1 - Math.abs(u) - Math.abs(v);
+                const t = Math.max(-y, 0);
+                vec3.set(dst, u - t * signNotZero(u), y, v - t * signNotZero(v));
+                return vec3.normalize(dst, dst);
+            },
+        };
+    }
+}
@@ -9,7 +9,7 @@ import { DebugMenu } from './DebugMenu';
 import { Clock } from './Clock';
 import { clamp, angularDistance, MathConstants, angleXZ, smoothstep } from './MathHelpers';
 import { Object3D, Vector3 } from './Object3D';
-import { AvatarSystemClient } from './Avatar';
+import { AvatarSystemClient, Avatar } from './Avatar';
 import { criticallyDampedSmoothing, criticallyDampedSmoothingVec } from './Spring';
 import { DebugRenderUtils, DebugColor } from './DebugRender';
 
@@ -23,6 +23,7 @@ const vec3Up = vec3.fromValues(0, 1, 0);
 
 interface Dependencies {
     avatar: AvatarSystemClient;
+    input: InputManager;
     debugMenu: DebugMenu;
     globalUniforms: GlobalUniforms;
     clock: Clock;
@@ -39,6 +40,10 @@ export class CameraSystem {
     private camPos = vec3.create();
     private combatController: CameraController; 
     private moveController: CameraController; 
+    private spectatorController: SpectatorCameraController;
+
+    // Spectators have no avatar of their own, so they watch the other players instead
+    spectating = false;
 
     private targets: CameraTarget[] = [];
 
@@ -53,9 +58,14 @@ export class CameraSystem {
         this.combatController.camera = this.camera;
         this.combatController.initialize(deps);
 
-        this.moveController = new FollowCameraController();
+        const followController = new FollowCameraController();
+        this.moveController = followController;
         this.moveController.camera = this.camera;
         this.moveController.initialize(deps);
+
+        this.spectatorController = new SpectatorCameraController(followController);
+        this.spectatorController.camera = this.camera;
+        this.spectatorController.initialize(deps);
     }
 
     resize(aspect: number) {
@@ -70,7 +80,9 @@ export class CameraSystem {
 
     update(deps: Dependencies) {
         // @HACK:
-        if (this.targets.find(t => t.size > 0 && t.pri === 1)) {
+        if (this.spectating) {
+            this.spectatorController.update(deps, this.targets);
+        } else if (this.targets.find(t => t.size > 0 && t.pri === 1)) {
             this.combatController.update(deps, this.targets);
         } else {
             this.moveController.update(deps, this.targets);
@@ -105,6 +117,7 @@ export interface CameraController {
 export class FollowCameraController implements CameraController {
     public camera: Camera;
     public follow: Object3D;
+    public target?: Object3D; // If set, this is followed instead of the local avatar
 
     private heading: number;
     private pitch: number;
@@ -135,7 +148,7 @@ export class FollowCameraController implements CameraController {
         const kFollowHeightBias = 250;
 
         // Follow the local avatar by default
-        this.follow = deps.avatar.localAvatar;
+        this.follow = this.target || deps.avatar.localAvatar;
         if (!this.follow) return false;
 
         this.follow.getWorldPosition(scratchVector3A);
@@ -170,6 +183,85 @@ export class FollowCameraController implements CameraController {
     }
 }
 
+/**
+ * Used when the local client is spectating. TargetLeft and TargetRight cycle through the active avatars, following 
+ * each one with the FollowCameraController, and then a free camera which is moved with the movement axes.
+ */
+export class SpectatorCameraController implements CameraController {
+    public camera: Camera;
+
+    private following?: Avatar;
+    private freeRoam = false;
+
+    private focusPos = vec3.create();
+    private heading = 0;
+    private pitch = Math.PI * 0.3;
+    private distance = 1500;
+    private speed = 1500; // Units per second
+
+    constructor(private followController: FollowCameraController) {}
+
+    initialize(deps: Dependencies) {
+        const folder = deps.debugMenu.addFolder('SpectatorCam');
+        folder.add(this, 'pitch', 0.0, Math.PI * 0.5, Math.PI * 0.01);
+        folder.add(this, 'distance', 500, 3000, 100);
+        folder.add(this, 'speed', 500, 5000, 100);
+    }
+
+    public update(deps: Dependencies, targets: CameraTarget[]): boolean {
+        const avatars = deps.avatar.getActiveAvatars();
+        const optionCount = avatars.length + 1; // Free-roam is the last option
+
+        // If the followed avatar has left (or we haven't chosen one yet), start from the first
+        let idx = this.freeRoam ? avatars.length : avatars.indexOf(this.following!);
+        if (idx < 0) idx = 0;
+
+        if (deps.input.wasActive('targetRight')) idx = (idx + 1) % optionCount;
+        if (deps.input.wasActive('targetLeft')) idx = (idx + optionCount - 1) % optionCount;
+
+        const wasFreeRoam = this.freeRoam;
+        this.freeRoam = idx === avatars.length;
+        this.following = avatars[idx];
+
+        if (!this.freeRoam) {
+            this.followController.target = this.following;
+            this.followController.update(deps);
+            this.followController.target = undefined;
+            return false;
+        }
+
+        // Begin roaming from wherever the camera is currently looking
+        if (!wasFreeRoam) {
+            const camPos = this.camera.getPos(scratchVec3A);
+            vec3.scaleAndAdd(this.focusPos, camPos, this.camera.forward, this.distance);
+            this.focusPos[1] = 0;
+            this.heading = Math.atan2(this.camera.forward[2], this.camera.forward[0]);
+        }
+
+        // Move the focus point relative to the camera's heading
+        const dtSec = deps.clock.renderDt * 0.001;
+        const forward = vec3.set(scratchVec3B, Math.cos(this.heading), 0, Math.sin(this.heading));
+        const right = vec3.set(scratchVec3C, -forward[2], 0, forward[0]);
+        vec3.scaleAndAdd(this.focusPos, this.focusPos, forward, deps.input.getAxis('Vertical') * this.speed * dtSec);
+        vec3.scaleAndAdd(this.focusPos, this.focusPos, right, deps.input.getAxis('Horizontal') * this.speed * dtSec);
+
+        const eyeOffsetUnit = computeUnitSphericalCoordinates(scratchVec3A, this.heading + Math.PI, this.pitch);
+        const eyePos = vec3.scaleAndAdd(scratchVec3A, this.focusPos, eyeOffsetUnit, this.distance);
+
+        mat4.lookAt(this.camera.viewMatrix, eyePos, this.focusPos, vec3Up);
+        this.camera.viewMatrixUpdated();
+
+        return false;
+    }
+
+    toJSON() {
+        return '';
+    }
+
+    fromJSON(data: string) {
+    }
+}
+
 export class CombatCameraController implements CameraController {
     public camera: Camera;
 
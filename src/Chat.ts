@@ -0,0 +1,164 @@
+// --------------------------------------------------------------------------------
+// Text chat and quick emotes, relayed to every client by the server
+// --------------------------------------------------------------------------------
+import { InputManager } from './Input';
+import { NetModuleClient } from './net/NetModule';
+import { NetClientEvents, NetClientState } from './net/NetClient';
+import { defined } from './util';
+
+export enum Emote {
+    Hello,
+    GoodGame,
+    Thanks,
+    Oops,
+
+    _Count
+}
+
+const kEmoteText: Record<number, string> = {
+    [Emote.Hello]: 'Hello!',
+    [Emote.GoodGame]: 'Good game!',
+    [Emote.Thanks]: 'Thanks!',
+    [Emote.Oops]: 'Oops!',
+};
+
+export const kMaxChatLength = 80; // In characters
+export const kMaxChatBytes = kMaxChatLength * 3; // UTF-8 encoded. Must fit in a single reliable message.
+export const kChatSpectator = -1; // ChatMessage.sender for messages sent by spectators
+
+/**
+ * Either a line of text or an emote
+ */
+export interface ChatMessage {
+    sender: number; // The sender's clientIndex, or kChatSpectator. This is always set by the server.
+    text?: string;
+    emote?: Emote;
+}
+
+/**
+ * Remove control characters and excess whitespace, and limit the length.
+ * @returns undefined if nothing remains
+ */
+export function sanitizeChatText(text: string) {
+    const clean = text.replace(/[\u0000-\u001F\u007F]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, kMaxChatLength);
+    return clean.length > 0 ? clean : undefined;
+}
+
+interface Dependencies {
+    toplevel: HTMLElement;
+    input: InputManager;
+    net: NetModuleClient;
+}
+
+const kMaxLogLines = 8;
+const kLogLineDurationMs = 10000; // Lines are hidden after this long, unless the input box is open
+
+/**
+ * The on-screen chat log and input box. Press Enter to type a message, and the number keys to send an emote.
+ */
+export class ChatSystem {
+    dom: HTMLElement;
+
+    private net: NetModuleClient;
+    private log: HTMLElement;
+    private input: HTMLInputElement;
+    private lines: { dom: HTMLElement, time: number }[] = [];
+
+    initialize({ toplevel, net }: Dependencies) {
+        this.net = net;
+
+        this.dom = document.createElement('div');
+        this.dom.style.cssText = `
+            position:absolute;
+            bottom:24pt;
+            left:0;
+            width:400px;
+            padding:6pt;
+            font-family: Monaco, monospace;
+            font-size: 10pt;
+            z-index:10000;
+            color:white;
+            text-shadow: 1px 1px 2px black`;
+
+        this.log = document.createElement('div');
+
+        this.input = document.createElement('input');
+        this.input.maxLength = kMaxChatLength;
+        this.input.placeholder = 'Say something...';
+        this.input.style.cssText = `
+            display:none;
+            width:100%;
+            font-family: Monaco, monospace;
+            font-size: 10pt;
+            background:rgba(50,50,50,0.8);
+            color:white;
+            border:none`;
+
+        // Keep key presses away from the game's keyboard listeners (on the window) while typing. Releases are allowed 
+        // through so that keys which were held when the input box opened don't get stuck.
+        this.input.addEventListener('keydown', (e: KeyboardEvent) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') { this.send(this.input.value); this.close(); }
+            else if (e.key === 'Escape') this.close();
+        });
+        this.input.addEventListener('blur', () => this.close());
+
+        this.dom.append(this.log, this.input);
+        toplevel.appendChild(this.dom);
+
+        net.client.on(NetClientEvents.Chat, this.onChat.bind(this));
+    }
+
+    update({ input }: Dependencies) {
+        if (this.net.client.state === NetClientState.Active) {
+            if (input.wasActive('chat')) this.open();
+
+            for (let i = 0; i < Emote._Count; i++) {
+                if (input.wasActive(`emote${i + 1}`)) this.net.client.transmitChat({ sender: kChatSpectator, emote: i });
+            }
+        }
+
+        // Fade out old lines, but show the full history while typing
+        const typing = this.input.style.display !== 'none';
+        const now = performance.now();
+        for (const line of this.lines) {
+            line.dom.style.display = (typing || now - line.time < kLogLineDurationMs) ? 'block' : 'none';
+        }
+    }
+
+    private open() {
+        this.input.style.display = 'block';
+        this.input.focus();
+    }
+
+    private close() {
+        this.input.value = '';
+        this.input.style.display = 'none';
+        this.input.blur();
+    }
+
+    private send(value: string) {
+        const text = sanitizeChatText(value);
+        if (defined(text) && this.net.client.state === NetClientState.Active) {
+            this.net.client.transmitChat({ sender: kChatSpectator, text });
+        }
+    }
+
+    private onChat(msg: ChatMessage) {
+        const client = this.net.client;
+        const local = !client.spectator && msg.sender === client.clientIndex;
+        const name = local ? 'You' : (msg.sender === kChatSpectator ? 'Spectator' : `Player ${msg.sender + 1}`);
+        const text = defined(msg.emote) ? `* ${kEmoteText[msg.emote]}` : `: ${msg.text}`;
+
+        const dom = document.createElement('div');
+        dom.textContent = `${name}${text}`;
+        if (defined(msg.emote)) dom.style.fontStyle = 'italic';
+        this.log.appendChild(dom);
+        this.lines.push({ dom, time: performance.now() });
+
+        while (this.lines.length > kMaxLogLines) {
+            const old = this.lines.shift()!;
+            this.log.removeChild(old.dom);
+        }
+    }
+}
@@ -11,6 +11,13 @@ const kClientTimeSnapDelta = 250; // If the difference between clientTime and it
                                   // often occurs upon connection.
 const kRenderTimeSnapDelta = 250;
 
+// The fixed time step of the simulation (in ms)
+export const kSimDt = 16;
+
+// The furthest (in ms) that NetModuleClient will place clientTime ahead of, and renderTime behind, the server time
+export const kMaxClientAhead = 250;
+export const kMaxRenderDelay = 250;
+
 export class Clock {
     // All times are in milliseconds (ms) and are updated each display frame
     public renderTime: number = 0; // The display time, which is when the the simulation state will be sampled and rendered. 
@@ -23,7 +30,7 @@ export class Clock {
     // Time deltas are updated each display frame
     public realDt: number = 0;   // The actual CPU-time delta since last display frame
     public renderDt: number = 0; // The delta for renderTime, which is a modulated form of realDt (can be paused, slowed, sped up).
-    public readonly simDt: number = 16; // The fixed time step of the simulation
+    public readonly simDt: number = kSimDt; // The fixed time step of the simulation
 
     private realTime = 0.0;
     private clientDelay = 0.0;
@@ -36,9 +43,10 @@ export class Clock {
 
     initialize({ debugMenu }: { debugMenu: DebugMenu }) {
         if (window.client?.debugMenu === debugMenu) {
-            debugMenu.add(this, 'paused').onChange(() => { if (window.server) window.server.clock.paused = this.paused });
-            debugMenu.add(this, 'speed', 0.01, 1.0, 0.01).onChange(() => { if (window.server) window.server.clock.speed = this.speed });
-            debugMenu.add(this, 'step').onChange(() => { if (window.server) window.server.clock.step() });
+            // The server may be running in a worker, so its clock is controlled through the Server interface
+            debugMenu.add(this, 'paused').onChange(() => { if (window.server) window.server.setClockDebug(this.paused, this.speed) });
+            debugMenu.add(this, 'speed', 0.01, 1.0, 0.01).onChange(() => { if (window.server) window.server.setClockDebug(this.paused, this.speed) });
+            debugMenu.add(this, 'step').onChange(() => { if (window.server) window.server.stepClock() });
         }
             
         this.zero();
@@ -51,6 +59,19 @@ export class Clock {
         this.simFrame = 0;
     }
 
+    /**
+     * Jump all timers to a specific simulation frame, e.g. when continuing a simulation that was started by another host
+     */
+    setFrame(frame: number) {
+        // Update all the timers, so that the next DT will be relative to this time
+        this.tick();
+
+        this.serverTime = frame * this.simDt;
+        this.clientTime = this.serverTime - this.clientDelay;
+        this.renderTime = this.serverTime - this.renderDelay;
+        this.simFrame = frame;
+    }
+
     syncToServerTime(serverTime: number) {
         // Update all the timers, so that the next DT will be relative to this time
         this.tick();
@@ -137,6 +158,14 @@ export class Clock {
         return this.serverTime + dt;
     }
 
+    /**
+     * Apply the debug settings of another clock, e.g. so that pausing the client also pauses the server
+     */
+    setDebug(paused: boolean, speed: number) {
+        this.paused = paused;
+        this.speed = speed;
+    }
+
     /**
      * Pause the clock (if it isn't already), and step one frame the next time update() is called.
      * @param stepDurationMs The timestep for next frame (in milliseconds). Defaults to 16.6ms.
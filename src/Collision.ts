@@ -1,9 +1,10 @@
 import { mat4, vec3 } from "gl-matrix";
 import { intersectAabbTriangle } from "./Intersection";
 import { GameObject } from "./World";
-import { assert } from "./util";
+import { assert, defined, defaultValue } from "./util";
 import { DebugRenderUtils } from "./DebugRender";
 import { Attack } from "./Attack";
+import { LagCompensation } from "./LagCompensation";
 
 export class Obb {
   center: vec3 = vec3.create();
@@ -24,6 +25,15 @@ export class Obb {
     return this;
   }
 
+  copy(other: Obb) {
+    vec3.copy(this.center, other.center);
+    vec3.copy(this.bases[0], other.bases[0]);
+    vec3.copy(this.bases[1], other.bases[1]);
+    vec3.copy(this.bases[2], other.bases[2]);
+    vec3.copy(this.halfLengths, other.halfLengths);
+    return this;
+  }
+
   toMatrix(obb: mat4) {
     mat4.set(obb, 
       this.halfLengths[0] * this.bases[0][0], this.halfLengths[0] * this.bases[0][1], this.halfLengths[0] * this.bases[0][2], 0,
@@ -95,11 +105,13 @@ const scratchAabb: Aabb = {
 export class CollisionSystem {
   attacks: Quad[] = [];
   attackOwners: Attack[] = [];
+  attackFrames: (number | undefined)[] = [];
 
   targets: Obb[] = [];
   targetOwners: GameObject[] = [];
 
   private hitCache: vec3[] = [];
+  private history?: LagCompensation;
 
   constructor() {
     for (let i = 0; i < kHitCacheSize; i++) {
@@ -107,9 +119,21 @@ export class CollisionSystem {
     }
   }
 
-  addAttackRegion(quad: Quad, attack: Attack) {
+  /**
+   * Provide a history of target OBBs so that attacks may be tested against targets at previous frames
+   */
+  setTargetHistory(history: LagCompensation) {
+    this.history = history;
+  }
+
+  /**
+   * @param rewindFrame If defined, test this attack against the targets as they were at this (past) frame. 
+   *                    See LagCompensation.
+   */
+  addAttackRegion(quad: Quad, attack: Attack, rewindFrame?: number) {
     this.attacks.push(quad);
     this.attackOwners.push(attack);
+    this.attackFrames.push(rewindFrame);
   }
 
   addTargetObb(obb: Obb | mat4, owner: GameObject) {
@@ -125,15 +149,20 @@ export class CollisionSystem {
   }
 
   getHitsForTarget(colId: number): HitResult[] {
-    const obb = this.targets[colId];
+    const currentObb = this.targets[colId];
+    const owner = this.targetOwners[colId];
     const hits: HitResult[] = [];
     let hitIdx = 0;
-  
-    const worldToObbBasis = obb.createWorldToObbMatrix(scratchMat4);
 
     for (let i = 0; i < this.attacks.length; i++) {
       const quad = this.attacks[i];
 
+      // Rewind the target to the frame at which the attacker saw it, if we have history for that frame
+      const rewindFrame = this.attackFrames[i];
+      const pastObb = (defined(rewindFrame) && defined(this.history)) ? this.history.getTargetObb(rewindFrame, owner) : undefined;
+      const obb = defaultValue(pastObb, currentObb);
+      const worldToObbBasis = obb.createWorldToObbMatrix(scratchMat4);
+
       // Transform triangles into OBB space
       const a = vec3.transformMat4(scratchVec3a, quad.verts[0], worldToObbBasis);
       const b = vec3.transformMat4(scratchVec3b, quad.verts[1], worldToObbBasis);
@@ -161,6 +190,7 @@ export class CollisionSystem {
     this.attacks.length = 0;
     this.targets.length = 0;
     this.attackOwners.length = 0;
+    this.attackFrames.length = 0;
     this.targetOwners.length = 0;
   }
 
@@ -90,7 +90,8 @@ export class EventDispatcher {
             return this;
         }
 
-        for (const callback of this.callbacks![name]) {
+        // Iterate over a copy, as once() callbacks remove themselves while firing
+        for (const callback of this.callbacks![name].slice()) {
             callback(...args);
         }
         return this;
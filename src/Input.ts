@@ -76,6 +76,16 @@ export class InputManager {
         this.controller.registerKeys(Keymap[InputAction.TargetLeft].id, ['KeyQ']);
         this.controller.registerKeys(Keymap[InputAction.TargetRight].id, ['KeyE']);
 
+        // Not part of the UserCommand. Spectators use this to request an avatar.
+        this.controller.registerKeys('join', ['KeyJ']);
+
+        // Chat and quick emotes. See ChatSystem.
+        this.controller.registerKeys('chat', ['Enter']);
+        this.controller.registerKeys('emote1', ['Digit1']);
+        this.controller.registerKeys('emote2', ['Digit2']);
+        this.controller.registerKeys('emote3', ['Digit3']);
+        this.controller.registerKeys('emote4', ['Digit4']);
+
         this.controller.disableContextMenu();
     }
 
@@ -115,7 +125,8 @@ export class InputManager {
             actions,
         }
 
-        userCommands.setUserCommand(cmd);
+        // Quantize so that local prediction uses exactly what the server will receive
+        userCommands.setUserCommand(UserCommand.quantize(cmd));
     }
 
     afterFrame() {
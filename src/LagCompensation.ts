@@ -0,0 +1,70 @@
+import { Obb, CollisionSystem } from "./Collision";
+import { GameObject } from "./World";
+import { defined, assert } from "./util";
+import { kSimDt, kMaxClientAhead, kMaxRenderDelay } from "./Clock";
+
+interface TargetSnapshot {
+  frame: number;
+  obbs: Obb[];
+  owners: GameObject[];
+}
+
+const kHistoryLength = 64;
+
+// A client displays the world at most this many frames behind the frame that it is simulating (plus one for rounding)
+const kMaxViewDelayFrames = Math.ceil((kMaxClientAhead + kMaxRenderDelay) / kSimDt) + 1;
+assert(kMaxViewDelayFrames < kHistoryLength);
+
+/**
+ * Keep a short history of the CollisionSystem's target OBBs for each simulated frame. A client sees other avatars as
+ * they were `renderDelay` ms in the past, so attacks from that client are tested against the targets as it saw them.
+ */
+export class LagCompensation {
+  /**
+   * The furthest (in frames) that targets can be rewound. Protects against clients claiming huge render delays, but
+   * covers the largest delay that an honest client can have.
+   */
+  maxRewindFrames = kMaxViewDelayFrames;
+
+  private history: TargetSnapshot[] = [];
+  private latestFrame = -1;
+
+  constructor() {
+    for (let i = 0; i < kHistoryLength; i++) {
+      this.history[i] = { frame: -1, obbs: [], owners: [] };
+    }
+  }
+
+  /**
+   * Store the targets that have been registered with the CollisionSystem this frame
+   */
+  capture(frame: number, collision: CollisionSystem) {
+    const snapshot = this.history[frame % kHistoryLength];
+    snapshot.frame = frame;
+    snapshot.owners.length = 0;
+
+    for (let i = 0; i < collision.targets.length; i++) {
+      if (!defined(snapshot.obbs[i])) snapshot.obbs[i] = new Obb();
+      snapshot.obbs[i].copy(collision.targets[i]);
+      snapshot.owners[i] = collision.targetOwners[i];
+    }
+
+    this.latestFrame = frame;
+  }
+
+  /**
+   * @param frame The frame to rewind to. This is limited to `maxRewindFrames` before the current frame.
+   * @returns The OBB of the target owned by `owner` at the specified frame, or undefined if it is not in the history
+   */
+  getTargetObb(frame: number, owner: GameObject): Obb | undefined {
+    const currentFrame = this.latestFrame + 1;
+    frame = Math.max(Math.round(frame), currentFrame - this.maxRewindFrames);
+    if (frame >= currentFrame) return undefined;
+
+    const snapshot = this.history[frame % kHistoryLength];
+    if (snapshot.frame !== frame) return undefined;
+
+    const idx = snapshot.owners.indexOf(owner);
+    return idx >= 0 ? snapshot.obbs[idx] : undefined;
+  }
+}
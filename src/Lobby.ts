@@ -0,0 +1,157 @@
+import { SignalSocket, RoomRequest, RoomSummary } from './net/SignalSocket';
+import { generateRoomCode, normalizeRoomName } from './net/RoomCode';
+import { kAvatarCount } from './Avatar';
+
+const kRefreshIntervalMs = 5000;
+
+const kPanelStyle = `
+    position:absolute;
+    top:50%;
+    left:50%;
+    transform:translate(-50%, -50%);
+    min-width:320px;
+    padding:12pt;
+    font-family: Monaco, monospace;
+    font-size: 12pt;
+    background:rgba(50,50,50,0.9);
+    z-index:10000;
+    color:white`;
+
+const kButtonStyle = `
+    margin:4pt 4pt 4pt 0;
+    font-family: Monaco, monospace;
+    font-size: 12pt;
+    cursor:pointer`;
+
+function createButton(text: string, onClick: () => void) {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.style.cssText = kButtonStyle;
+    button.onclick = onClick;
+    return button;
+}
+
+/**
+ * A screen which is displayed before connecting, so that the player can choose which room to join. They may quick play
+ * (join the fullest public room), pick a public room from the list, enter a room code, or create a new room.
+ */
+export class Lobby {
+    dom: HTMLElement;
+
+    private roomList: HTMLElement;
+    private codeInput: HTMLInputElement;
+    private signalSocket?: SignalSocket;
+    private refreshInterval?: number;
+    private choose: (request: RoomRequest) => void;
+
+    constructor() {
+        this.dom = document.createElement('div');
+        this.dom.style.cssText = kPanelStyle;
+
+        const title = document.createElement('div');
+        title.textContent = 'Public Rooms';
+        this.roomList = document.createElement('div');
+        this.roomList.style.cssText = 'margin:6pt 0; max-height:240px; overflow-y:auto';
+        this.roomList.textContent = 'Connecting...';
+
+        this.codeInput = document.createElement('input');
+        this.codeInput.placeholder = 'Room code';
+        this.codeInput.style.cssText = kButtonStyle;
+        this.codeInput.onkeydown = (e: KeyboardEvent) => { if (e.key === 'Enter') this.joinCode(); };
+
+        this.dom.append(
+            title,
+            this.roomList,
+            createButton('Quick Play', () => this.choose({ quickPlay: true })),
+            createButton('Create Room', () => this.choose({ name: generateRoomCode() })),
+            createButton('Create Private Room', () => this.choose({ name: generateRoomCode(), isPrivate: true })),
+            document.createElement('br'),
+            this.codeInput,
+            createButton('Join', () => this.joinCode()),
+        );
+    }
+
+    /**
+     * Display the lobby until the player has chosen a room
+     * @param address URL of the signal server, which provides the list of rooms
+     * @returns The room to join, which can be passed to SignalSocket.connect()
+     */
+    async show(parent: HTMLElement, address: string): Promise<RoomRequest> {
+        parent.appendChild(this.dom);
+        const chosen = new Promise<RoomRequest>(resolve => this.choose = resolve);
+
+        // The player can still quick play or enter a code if the room list is unavailable
+        const signalSocket = new SignalSocket();
+        this.signalSocket = signalSocket;
+        signalSocket.connect(address, { lobby: true }).then(() => {
+            this.refresh();
+            this.refreshInterval = window.setInterval(() => this.refresh(), kRefreshIntervalMs);
+        });
+
+        const request = await chosen;
+
+        window.clearInterval(this.refreshInterval);
+        signalSocket.close();
+        this.signalSocket = undefined;
+        parent.removeChild(this.dom);
+
+        return request;
+    }
+
+    private async refresh() {
+        if (!this.signalSocket) return;
+        const rooms = await this.signalSocket.listRooms();
+        this.renderRooms(rooms);
+    }
+
+    private renderRooms(rooms: RoomSummary[]) {
+        while (this.roomList.firstChild) this.roomList.removeChild(this.roomList.firstChild);
+
+        if (rooms.length === 0) {
+            this.roomList.textContent = 'No public rooms. Create one with Quick Play!';
+            return;
+        }
+
+        // Fullest rooms first, so that players end up together
+        rooms.sort((a, b) => b.clientCount - a.clientCount);
+        for (const room of rooms) {
+            const full = room.clientCount >= kAvatarCount;
+            const label = `${room.name} (${room.clientCount}/${kAvatarCount}${full ? ', spectate' : ''})`;
+            this.roomList.appendChild(createButton(label, () => this.choose({ name: room.name })));
+            this.roomList.appendChild(document.createElement('br'));
+        }
+    }
+
+    private joinCode() {
+        const name = normalizeRoomName(this.codeInput.value);
+        if (name) this.choose({ name });
+    }
+}
+
+/**
+ * Displays the name of the current room in the corner of the screen, so that it can be shared with other players
+ */
+export class RoomLabel {
+    dom: HTMLElement;
+
+    constructor() {
+        const container = document.createElement('div');
+        container.style.cssText = `
+            position:absolute;
+            bottom:0;
+            left:0;
+            padding:6pt;
+            font-family: Monaco, monospace;
+            font-size: 10pt;
+            background:rgba(50,50,50,0.6);
+            z-index:10000;
+            pointer-events:none;
+            color:white`;
+        this.dom = container;
+    }
+
+    show(parent: HTMLElement, roomName: string, isPrivate: boolean) {
+        this.dom.textContent = `Room: ${roomName}${isPrivate ? ' (private)' : ''}`;
+        if (this.dom.parentNode !== parent) parent.appendChild(this.dom);
+    }
+}
@@ -0,0 +1,404 @@
+// --------------------------------------------------------------------------------
+// Match flow: rounds, scoring and respawning. The server decides, clients display.
+// --------------------------------------------------------------------------------
+import { vec3 } from "gl-matrix";
+import { AvatarSystemServer, AvatarSystemClient } from "./Avatar";
+import { BitBuf, Quantize } from "./BitBuf";
+import { Clock } from "./Clock";
+import { DebugMenu } from "./DebugMenu";
+import { NetModuleClient, NetModuleServer } from "./net/NetModule";
+import { NetClientEvents } from "./net/NetClient";
+import { defined } from "./util";
+
+export enum MatchPhase {
+    Warmup, // Waiting for enough players. Hits are not scored.
+    Countdown, // Everyone has been respawned, and input is ignored until the round begins
+    RoundActive,
+    RoundOver,
+    MatchOver,
+
+    _Count
+}
+
+/**
+ * Configurable on the server via the 'Match' debug menu. Changes take effect at the start of the next round.
+ */
+export interface MatchRules {
+    hitsToWin: number; // A round is won by the first player to land this many hits
+    roundTimeLimit: number; // Seconds. If it expires, the player with the most hits wins the round. Zero for no limit.
+    roundsToWin: number;
+    minPlayers: number; // Bots count as players
+    countdownTime: number; // Seconds
+    roundOverTime: number; // Seconds
+    matchOverTime: number; // Seconds
+}
+
+export function createMatchRules(): MatchRules {
+    return { hitsToWin: 3, roundTimeLimit: 90, roundsToWin: 2, minPlayers: 2, countdownTime: 3, roundOverTime: 4, matchOverTime: 10 };
+}
+
+export interface PlayerScore {
+    index: number; // Avatar index
+    hits: number; // Hits landed this round
+    rounds: number; // Rounds won this match
+}
+
+export interface MatchState {
+    phase: MatchPhase;
+    round: number; // Starting at 1. Zero during warmup.
+    phaseStartFrame: number;
+    phaseEndFrame: number; // The phase will end on this frame, or -1 if it has no time limit
+    hitsToWin: number;
+    roundsToWin: number;
+    winner?: number; // Avatar index of the winner of the current round (or match). Undefined for a draw.
+    scores: PlayerScore[];
+}
+
+export function createMatchState(): MatchState {
+    return { phase: MatchPhase.Warmup, round: 0, phaseStartFrame: 0, phaseEndFrame: -1, hitsToWin: 0, roundsToWin: 0, scores: [] };
+}
+
+const kMatchPhase = Quantize.int(0, 7);
+const kMatchCount = Quantize.int(0, 255); // Rounds, hits, etc
+// @NOTE: kAvatarCount can't be used here. Avatar.ts (indirectly) imports this module, so it may not be defined yet.
+const kMaxPlayers = 8;
+const kAvatarIndex = Quantize.int(0, kMaxPlayers - 1);
+const kScoreCount = Quantize.int(0, kMaxPlayers);
+
+export function serializeMatchState(bb: BitBuf, state: MatchState) {
+    kMatchPhase.write(bb, state.phase);
+    kMatchCount.write(bb, state.round);
+    Quantize.int32.write(bb, state.phaseStartFrame);
+    Quantize.int32.write(bb, state.phaseEndFrame);
+    kMatchCount.write(bb, state.hitsToWin);
+    kMatchCount.write(bb, state.roundsToWin);
+
+    Quantize.bool.write(bb, defined(state.winner));
+    if (defined(state.winner)) kAvatarIndex.write(bb, state.winner);
+
+    kScoreCount.write(bb, state.scores.length);
+    for (const score of state.scores) {
+        kAvatarIndex.write(bb, score.index);
+        kMatchCount.write(bb, Math.min(score.hits, 255));
+        kMatchCount.write(bb, Math.min(score.rounds, 255));
+    }
+}
+
+export function deserializeMatchState(bb: BitBuf): MatchState {
+    const state = createMatchState();
+    state.phase = kMatchPhase.read(bb, 0) as MatchPhase;
+    state.round = kMatchCount.read(bb, 0);
+    state.phaseStartFrame = Quantize.int32.read(bb, 0);
+    state.phaseEndFrame = Quantize.int32.read(bb, 0);
+    state.hitsToWin = kMatchCount.read(bb, 0);
+    state.roundsToWin = kMatchCount.read(bb, 0);
+
+    const hasWinner = Quantize.bool.read(bb, false);
+    if (hasWinner) state.winner = kAvatarIndex.read(bb, 0);
+
+    const scoreCount = kScoreCount.read(bb, 0);
+    for (let i = 0; i < scoreCount; i++) {
+        const index = kAvatarIndex.read(bb, 0);
+        const hits = kMatchCount.read(bb, 0);
+        const rounds = kMatchCount.read(bb, 0);
+        state.scores.push({ index, hits, rounds });
+    }
+
+    return state;
+}
+
+// Avatars respawn on a ring around the center of the stage, facing inwards
+const kSpawnRadius = 1000;
+
+function getSpawnPoint(slot: number, slotCount: number, outOrigin: vec3, outOrientation: vec3) {
+    const angle = (slot / slotCount) * Math.PI * 2.0;
+    vec3.set(outOrigin, Math.sin(angle) * kSpawnRadius, 0, Math.cos(angle) * kSpawnRadius);
+    vec3.set(outOrientation, -Math.sin(angle), 0, -Math.cos(angle));
+}
+
+const scratchOrigin = vec3.create();
+const scratchOrientation = vec3.create();
+
+interface ServerDependencies {
+    avatar: AvatarSystemServer;
+    clock: Clock;
+    debugMenu: DebugMenu;
+    net: NetModuleServer;
+}
+
+/**
+ * Runs the match on the server: decides when each phase begins and ends, scores hits, and respawns the avatars for
+ * each round. The MatchState is sent to every client whenever it changes.
+ */
+export class MatchSystemServer {
+    rules = createMatchRules();
+    state = createMatchState();
+
+    initialize({ debugMenu }: ServerDependencies) {
+        const menu = debugMenu.addFolder('Match');
+        menu.add(this.rules, 'hitsToWin', 1, 20, 1);
+        menu.add(this.rules, 'roundTimeLimit', 0, 300, 5);
+        menu.add(this.rules, 'roundsToWin', 1, 9, 1);
+        menu.add(this.rules, 'minPlayers', 1, kMaxPlayers, 1);
+        menu.add(this.rules, 'countdownTime', 0, 10, 1);
+        menu.add(this.rules, 'roundOverTime', 0, 10, 1);
+        menu.add(this.rules, 'matchOverTime', 0, 30, 1);
+    }
+
+    /**
+     * Must be called after AvatarSystemServer.updateFixedLate(), once the frame's hits are known
+     */
+    updateFixed({ avatar, clock, net }: ServerDependencies) {
+        const frame = clock.simFrame;
+        const state = this.state;
+        const players = avatar.getActiveAvatars();
+        let changed = this.syncPlayers(players);
+
+        const phaseExpired = state.phaseEndFrame >= 0 && frame >= state.phaseEndFrame;
+
+        if (state.phase !== MatchPhase.Warmup && players.length < this.rules.minPlayers) {
+            // Everyone else left, wait for more players
+            this.resetMatch(frame);
+            changed = true;
+        } else switch (state.phase) {
+            case MatchPhase.Warmup: {
+                if (players.length >= this.rules.minPlayers) {
+                    this.beginRound(avatar, players, frame, clock.simDt);
+                    changed = true;
+                }
+            } break;
+
+            case MatchPhase.Countdown: {
+                if (phaseExpired) {
+                    const limit = this.rules.roundTimeLimit > 0 ? this.secondsToFrames(this.rules.roundTimeLimit, clock.simDt) : -1;
+                    this.setPhase(MatchPhase.RoundActive, frame, limit);
+                    changed = true;
+                }
+            } break;
+
+            case MatchPhase.RoundActive: {
+                for (const hit of avatar.hits) {
+                    const score = state.scores.find(s => s.index === hit.attacker);
+                    if (!defined(score)) continue;
+
+                    score.hits += 1;
+                    changed = true;
+
+                    if (score.hits >= state.hitsToWin) {
+                        avatar.setKnockedOut(hit.target);
+                        this.endRound(hit.attacker, frame, clock.simDt);
+                        break;
+                    }
+                }
+
+                // Out of time. The player with the most hits wins, unless there is a tie.
+                if (state.phase === MatchPhase.RoundActive && phaseExpired) {
+                    const best = Math.max(...state.scores.map(s => s.hits));
+                    const leaders = state.scores.filter(s => s.hits === best);
+                    this.endRound(leaders.length === 1 ? leaders[0].index : undefined, frame, clock.simDt);
+                    changed = true;
+                }
+            } break;
+
+            case MatchPhase.RoundOver: {
+                if (phaseExpired) {
+                    const champion = state.scores.find(s => s.rounds >= state.roundsToWin);
+                    if (defined(champion)) {
+                        state.winner = champion.index;
+                        this.setPhase(MatchPhase.MatchOver, frame, this.secondsToFrames(this.rules.matchOverTime, clock.simDt));
+                    } else {
+                        this.beginRound(avatar, players, frame, clock.simDt);
+                    }
+                    changed = true;
+                }
+            } break;
+
+            case MatchPhase.MatchOver: {
+                if (phaseExpired) {
+                    this.resetMatch(frame);
+                    changed = true;
+                }
+            } break;
+        }
+
+        // Commands are ignored for the rest of the countdown. The next frame is the first one that they will affect.
+        avatar.inputFrozen = state.phase === MatchPhase.Countdown && frame + 1 < state.phaseEndFrame;
+
+        if (changed) net.broadcastMatchState(state);
+    }
+
+    /**
+     * Add scores for players that have joined, and remove those that have left
+     * @returns true if the list of players changed
+     */
+    private syncPlayers(players: number[]) {
+        const scores = this.state.scores;
+        const count = scores.length;
+
+        this.state.scores = scores.filter(s => players.includes(s.index));
+        for (const index of players) {
+            if (!scores.some(s => s.index === index)) this.state.scores.push({ index, hits: 0, rounds: 0 });
+        }
+
+        return this.state.scores.length !== count || this.state.scores.some((s, i) => s !== scores[i]);
+    }
+
+    private beginRound(avatar: AvatarSystemServer, players: number[], frame: number, simDt: number) {
+        this.state.round += 1;
+        this.state.winner = undefined;
+        this.state.hitsToWin = this.rules.hitsToWin;
+        this.state.roundsToWin = this.rules.roundsToWin;
+        for (const score of this.state.scores) score.hits = 0;
+
+        for (let i = 0; i < players.length; i++) {
+            getSpawnPoint(i, players.length, scratchOrigin, scratchOrientation);
+            avatar.respawn(players[i], scratchOrigin, scratchOrientation, frame);
+        }
+
+        this.setPhase(MatchPhase.Countdown, frame, this.secondsToFrames(this.rules.countdownTime, simDt));
+    }
+
+    private endRound(winner: number | undefined, frame: number, simDt: number) {
+        this.state.winner = winner;
+        if (defined(winner)) {
+            const score = this.state.scores.find(s => s.index === winner);
+            if (defined(score)) score.rounds += 1;
+        }
+
+        this.setPhase(MatchPhase.RoundOver, frame, this.secondsToFrames(this.rules.roundOverTime, simDt));
+    }
+
+    private resetMatch(frame: number) {
+        this.state.round = 0;
+        this.state.winner = undefined;
+        for (const score of this.state.scores) { score.hits = 0; score.rounds = 0; }
+        this.setPhase(MatchPhase.Warmup, frame, -1);
+    }
+
+    /**
+     * @param duration Length of the phase in frames, or -1 if it has no time limit
+     */
+    private setPhase(phase: MatchPhase, frame: number, duration: number) {
+        this.state.phase = phase;
+        this.state.phaseStartFrame = frame;
+        this.state.phaseEndFrame = duration >= 0 ? frame + duration : -1;
+    }
+
+    private secondsToFrames(seconds: number, simDt: number) {
+        return Math.round(seconds * 1000 / simDt);
+    }
+}
+
+interface ClientDependencies {
+    toplevel: HTMLElement;
+    clock: Clock;
+    avatar: AvatarSystemClient;
+    net: NetModuleClient;
+}
+
+/**
+ * Displays the scoreboard and the current phase of the match, as reported by the server
+ */
+export class MatchSystemClient {
+    state = createMatchState();
+
+    private net: NetModuleClient;
+    private avatar: AvatarSystemClient;
+    private banner: HTMLElement;
+    private scoreboard: HTMLElement;
+    private scoreboardDirty = true;
+    private clockText = '';
+
+    initialize({ toplevel, net, avatar }: ClientDependencies) {
+        this.net = net;
+        this.avatar = avatar;
+
+        this.banner = document.createElement('div');
+        this.banner.style.cssText = `
+            position:absolute;
+            top:20%;
+            left:0;
+            right:0;
+            font-family: Monaco, monospace;
+            font-size: 32pt;
+            text-align:center;
+            white-space:pre;
+            z-index:10000;
+            pointer-events:none;
+            color:white;
+            text-shadow: 2px 2px 4px black`;
+
+        this.scoreboard = document.createElement('div');
+        this.scoreboard.style.cssText = `
+            position:absolute;
+            top:32pt;
+            left:50%;
+            transform:translate(-50%, 0);
+            padding:6pt;
+            font-family: Monaco, monospace;
+            font-size: 10pt;
+            background:rgba(50,50,50,0.6);
+            z-index:10000;
+            pointer-events:none;
+            white-space:pre;
+            color:white`;
+
+        toplevel.append(this.banner, this.scoreboard);
+
+        net.client.on(NetClientEvents.MatchState, this.onMatchState.bind(this));
+    }
+
+    update({ clock }: ClientDependencies) {
+        const state = this.state;
+        const renderFrame = clock.renderTime / clock.simDt;
+        const remaining = state.phaseEndFrame >= 0 ? Math.max(state.phaseEndFrame - renderFrame, 0) * clock.simDt / 1000 : 0;
+
+        let text = '';
+        switch (state.phase) {
+            case MatchPhase.Warmup: text = ''; break;
+            case MatchPhase.Countdown: text = `Round ${state.round}\n${Math.ceil(remaining)}`; break;
+            case MatchPhase.RoundActive: text = renderFrame - state.phaseStartFrame < 60 ? 'Fight!' : ''; break;
+            case MatchPhase.RoundOver: text = defined(state.winner) ? `${this.getName(state.winner)} won the round` : 'Draw'; break;
+            case MatchPhase.MatchOver: text = `${this.getName(state.winner!)} won the match!`; break;
+        }
+        if (this.banner.textContent !== text) this.banner.textContent = text;
+
+        // Only rebuild the scoreboard when it changes
+        const clockText = (state.phase === MatchPhase.RoundActive && state.phaseEndFrame >= 0) ? formatTime(remaining) : '';
+        if (this.scoreboardDirty || clockText !== this.clockText) {
+            this.scoreboardDirty = false;
+            this.clockText = clockText;
+            this.scoreboard.textContent = this.describeScores();
+        }
+    }
+
+    private describeScores() {
+        const state = this.state;
+        if (state.phase === MatchPhase.Warmup) return 'Warmup. Waiting for players...';
+
+        const lines = [`Round ${state.round}  First to ${state.hitsToWin} hits  ${this.clockText}`];
+        for (const score of state.scores) {
+            const name = this.getName(score.index).padEnd(10);
+            lines.push(`${name} ${score.hits} hits  ${score.rounds}/${state.roundsToWin} rounds`);
+        }
+        return lines.join('\n');
+    }
+
+    private getName(index: number) {
+        const client = this.net.client;
+        return (!client.spectator && index === client.clientIndex) ? 'You' : `Player ${index + 1}`;
+    }
+
+    private onMatchState(state: MatchState) {
+        this.state = state;
+        this.scoreboardDirty = true;
+
+        // Predict the same frozen input as the server, so that the local avatar doesn't move during the countdown
+        if (state.phase === MatchPhase.Countdown) this.avatar.freezeInput(state.phaseStartFrame + 1, state.phaseEndFrame);
+    }
+}
+
+function formatTime(seconds: number) {
+    const s = Math.ceil(seconds);
+    return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,50 @@
+/// <reference types="node" />
+// --------------------------------------------------------------------------------
+// Browser globals that the server's modules rely on, for the dedicated server which runs under Node. Like 
+// WorkerGlobals, this must be the first import so that it is evaluated before any modules that touch `window`.
+// --------------------------------------------------------------------------------
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Just enough of the Response interface for the ResourceLoaders
+interface ResourceResponse {
+    status: number;
+    arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+// The browser globals that are provided under Node. lib.dom already types them as the modules use them.
+declare global {
+    namespace NodeJS {
+        interface Global {
+            window: Global;
+            self: Global;
+            fetch(uri: string): Promise<ResourceResponse>;
+            RTCPeerConnection?: typeof RTCPeerConnection; // Only if the optional 'wrtc' package is installed
+        }
+    }
+}
+
+global.window = global;
+global.self = global;
+
+let resourceRoot = process.cwd();
+
+/**
+ * Set the directory from which resources such as 'data/Avatar.glb' are read. Defaults to the working directory.
+ */
+export function setResourceRoot(dir: string) {
+    resourceRoot = path.resolve(dir);
+}
+
+// Node's fetch() (where it exists) can't read local files, and resources are requested with relative URIs. Serve 
+// them from the filesystem instead, with just enough of the Response interface for the ResourceLoaders.
+global.fetch = async (uri: string) => {
+    try {
+        const data = await fs.promises.readFile(path.resolve(resourceRoot, uri));
+        const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+        return { status: 200, arrayBuffer: async () => buffer };
+    } catch (e) {
+        console.error(`Failed to read resource ${uri} from ${resourceRoot}:`, e.message);
+        return { status: 404, arrayBuffer: async () => new ArrayBuffer(0) };
+    }
+};
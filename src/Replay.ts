@@ -0,0 +1,306 @@
+import { Buf } from "./Buf";
+import { BitBuf, Quantize } from "./BitBuf";
+import { SimState, SimStream, EntityState, World, serializeSimState, deserializeSimState, interpolateSimState } from "./World";
+import { UserCommand } from "./UserCommand";
+import { kAvatarCount } from "./Avatar";
+import { kProtocolVersion } from "./net/Protocol";
+import { Clock } from "./Clock";
+import { DebugMenu, IDebugMenu } from "./DebugMenu";
+import { CameraSystem } from "./CameraSystem";
+import { StatusBanner } from "./StatusBanner";
+import { clamp } from "./MathHelpers";
+import { assert } from "./util";
+
+// "MDRP", as a little-endian int
+const kReplayMagic = 0x5052444D;
+
+// Increment this whenever the replay format changes. SimStates are written with serializeSimState(), so replays are
+// also tied to the kProtocolVersion that they were recorded with.
+const kReplayVersion = 1;
+
+const kHeaderBytes = 10;
+const kMaxFrameBytes = 4096;
+
+const kAvatarMask = Quantize.int(0, 2 ** kAvatarCount - 1);
+
+/**
+ * A recorded match, decoded from a replay file by parseReplay()
+ */
+export interface Replay {
+    states: SimState[]; // One for each consecutive frame, beginning with states[0].frame
+    commands: (UserCommand | undefined)[][]; // The command that each avatar followed on each frame, if it was active
+}
+
+/**
+ * Records the server's simulation, one fixed frame at a time, into a replay file. Each SimState is delta compressed
+ * against the previous frame, so the file must be read from the beginning. See parseReplay().
+ */
+export class ReplayRecorder {
+    private frames: Uint8Array[] = [];
+    private lastState?: SimState;
+    private buf = new Buf(new Uint8Array(kMaxFrameBytes));
+
+    /**
+     * @param state The state captured at the end of the frame
+     * @param commands The command that each avatar followed during the frame, or undefined if it was inactive
+     */
+    recordFrame(state: SimState, commands: (UserCommand | undefined)[]) {
+        assert(!this.lastState || state.frame === this.lastState.frame + 1, 'Replay: Frames must be recorded in order');
+        const bb = new BitBuf(this.buf.clear());
+
+        serializeSimState(bb, state, this.lastState);
+
+        let mask = 0;
+        for (let i = 0; i < kAvatarCount; i++) {
+            if (commands[i]) mask |= 1 << i;
+        }
+
+        kAvatarMask.write(bb, mask);
+        for (let i = 0; i < kAvatarCount; i++) {
+            const cmd = commands[i];
+            if (cmd) UserCommand.serialize(bb, cmd);
+        }
+
+        BitBuf.flush(bb);
+        this.frames.push(this.buf.finish().slice());
+
+        // The state may be reused by the SimStream, but its entities are never modified
+        this.lastState = { frame: state.frame, entities: state.entities.slice() };
+    }
+
+    /**
+     * @returns The replay file, containing every frame recorded so far
+     */
+    finish() {
+        const byteLength = this.frames.reduce((sum, frame) => sum + 2 + frame.byteLength, kHeaderBytes);
+        const buf = new Buf(new Uint8Array(byteLength));
+
+        Buf.writeInt(buf, kReplayMagic);
+        Buf.writeByte(buf, kReplayVersion);
+        Buf.writeByte(buf, kProtocolVersion);
+        Buf.writeInt(buf, this.frames.length);
+
+        for (const frame of this.frames) {
+            Buf.writeShort(buf, frame.byteLength);
+            buf.write(frame);
+        }
+
+        return buf.data;
+    }
+}
+
+/**
+ * Decode every frame of a replay file written by ReplayRecorder
+ */
+export function parseReplay(data: Uint8Array): Replay {
+    const buf = new Buf(data);
+    if (data.byteLength < kHeaderBytes || Buf.readInt(buf) !== kReplayMagic) throw new Error('Replay: Not a replay file');
+
+    const version = Buf.readByte(buf);
+    if (version !== kReplayVersion) throw new Error(`Replay: Unsupported replay version ${version}`);
+
+    const protocol = Buf.readByte(buf);
+    if (protocol !== kProtocolVersion) {
+        throw new Error(`Replay: Recorded with protocol version ${protocol}, but this build uses ${kProtocolVersion}`);
+    }
+
+    const replay: Replay = { states: [], commands: [] };
+    const frameCount = Buf.readInt(buf);
+    if (frameCount === 0) throw new Error('Replay: No frames were recorded');
+
+    // Holds the previous frames, which are the baselines for the delta compressed states
+    const stream = new SimStream();
+
+    for (let i = 0; i < frameCount; i++) {
+        const remaining = data.byteLength - buf.offset;
+        const byteLength = remaining >= 2 ? Buf.readShort(buf) : 0;
+        if (remaining < 2 + byteLength) {
+            throw new Error(`Replay: The file is truncated. Only ${i} of ${frameCount} frames were recorded.`);
+        }
+
+        const offset = Buf.skip(buf, byteLength);
+        const bb = new BitBuf(new Buf(data.subarray(offset, offset + byteLength)));
+
+        const state: SimState = { frame: -1, entities: [] };
+        const valid = deserializeSimState(bb, state, stream);
+        if (!valid) throw new Error(`Replay: Frame ${state.frame} is missing its baseline`);
+        stream.addState(state);
+
+        const commands: (UserCommand | undefined)[] = [];
+        const mask = kAvatarMask.read(bb, 0);
+        for (let j = 0; j < kAvatarCount; j++) {
+            if (!(mask & (1 << j))) continue;
+
+            const cmd = { frame: state.frame } as UserCommand;
+            UserCommand.deserialize(cmd, bb);
+            commands[j] = cmd;
+        }
+
+        replay.states.push(state);
+        replay.commands.push(commands);
+    }
+
+    return replay;
+}
+
+/**
+ * Download a replay file, e.g. from the URL given by the 'replay' parameter
+ */
+export async function fetchReplay(url: string) {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Replay: Failed to download ${url} (${response.status} ${response.statusText})`);
+    return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Save a replay file to the player's downloads
+ */
+function downloadReplay(data: Uint8Array) {
+    const url = URL.createObjectURL(new Blob([data], { type: 'application/octet-stream' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `moonduel-${new Date().toISOString().replace(/[:.]/g, '-')}.replay`;
+    link.click();
+
+    window.setTimeout(() => URL.revokeObjectURL(url));
+}
+
+interface ClientDependencies {
+    toplevel: HTMLElement;
+    clock: Clock;
+    world: World;
+    debugMenu: DebugMenu;
+    cameraSystem: CameraSystem;
+}
+
+/**
+ * Plays back a replay in place of the network connection. Playback follows the Clock's render time, so pausing, speed
+ * and stepping are all applied through the Clock, and seeking jumps it to another frame. The host can also record its
+ * server's simulation from the debug menu.
+ * @NOTE: Only the world state is recorded. The match score, chat and sounds are not.
+ */
+export class ReplaySystemClient {
+    replay?: Replay;
+
+    // Debug menu controls
+    recording = false;
+    paused = false;
+    speed = 1.0;
+    frame = 0;
+
+    private clock: Clock;
+    private world: World;
+    private cameraSystem: CameraSystem;
+    private menu: IDebugMenu;
+    private banner = new StatusBanner();
+
+    initialize(game: ClientDependencies) {
+        this.clock = game.clock;
+        this.world = game.world;
+        this.cameraSystem = game.cameraSystem;
+
+        this.menu = game.debugMenu.addFolder('Replay');
+        this.menu.add(this, 'recording').onChange((recording: boolean) => this.setRecording(recording));
+    }
+
+    /**
+     * Begin playing a replay from its first frame
+     */
+    load(replay: Replay) {
+        assert(replay.states.length > 0, 'Replay: No frames were recorded');
+        this.replay = replay;
+
+        const firstFrame = replay.states[0].frame;
+        const lastFrame = firstFrame + replay.states.length - 1;
+
+        // World objects are only created by World.addState(). Create every entity that appears in the replay up front,
+        // so that any frame can be loaded.
+        const entities = new Map<number, EntityState>();
+        for (const state of replay.states) {
+            for (const entity of state.entities) {
+                if (!entities.has(entity.id)) entities.set(entity.id, entity);
+            }
+        }
+        const sorted = Array.from(entities.values()).sort((a, b) => a.id - b.id);
+        this.world.addState({ frame: firstFrame, entities: sorted });
+
+        this.cameraSystem.spectating = true;
+        this.clock.setFrame(firstFrame);
+        this.frame = firstFrame;
+
+        this.menu.add(this, 'paused').onChange(() => this.clock.setDebug(this.paused, this.speed));
+        this.menu.add(this, 'speed', 0.1, 4.0, 0.1).onChange(() => this.clock.setDebug(this.paused, this.speed));
+        this.menu.add(this, 'frame', firstFrame, lastFrame, 1).onChange((frame: number) => this.seek(frame));
+    }
+
+    /**
+     * Wait for the player to drop a replay file onto the page
+     * @param error Why the previous replay failed to load, if it did. It is displayed along with the request.
+     */
+    requestFile(parent: HTMLElement, error?: string): Promise<Uint8Array> {
+        this.banner.show(parent, `${error ? `${error} ` : ''}Drop a replay file here to watch it.`);
+
+        return new Promise(resolve => {
+            parent.ondragover = (e: DragEvent) => e.preventDefault();
+            parent.ondrop = async (e: DragEvent) => {
+                e.preventDefault();
+                const file = e.dataTransfer?.files[0];
+                if (!file) return;
+
+                parent.ondragover = null;
+                parent.ondrop = null;
+                this.banner.hide();
+                resolve(new Uint8Array(await new Response(file).arrayBuffer()));
+            };
+        });
+    }
+
+    /**
+     * Jump to a frame of the replay
+     */
+    seek(frame: number) {
+        this.clock.setFrame(frame);
+    }
+
+    /**
+     * Interpolate the replay's state at the Clock's render time
+     * @returns false if no replay has been loaded
+     */
+    getSimState(result: SimState) {
+        if (!this.replay) return false;
+
+        const states = this.replay.states;
+        const firstFrame = states[0].frame;
+        const lastFrame = firstFrame + states.length - 1;
+        const frame = clamp(this.clock.renderTime / this.clock.simDt, firstFrame, lastFrame);
+
+        // Hold the last frame once the replay has finished
+        if (frame === lastFrame && !this.paused) {
+            this.paused = true;
+            this.clock.setDebug(this.paused, this.speed);
+        }
+
+        const idx = Math.floor(frame) - firstFrame;
+        const a = states[idx];
+        const b = states[Math.min(idx + 1, states.length - 1)];
+        interpolateSimState(result, a, b, frame - Math.floor(frame));
+
+        this.frame = Math.floor(frame);
+        return true;
+    }
+
+    private async setRecording(recording: boolean) {
+        // The server may be running in a worker, so it is controlled through the Server interface
+        if (!window.server) {
+            console.warn('Replay: Only the host can record');
+            this.recording = false;
+            return;
+        }
+
+        if (recording) return window.server.startRecording();
+
+        const data = await window.server.stopRecording();
+        if (data) downloadReplay(data);
+    }
+}
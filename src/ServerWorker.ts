@@ -0,0 +1,205 @@
+// --------------------------------------------------------------------------------
+// Hosts a Server on a Worker thread, so that the simulation is not slowed down by the host's rendering, and is not
+// throttled when the host's tab is in the background. WebRTC is not available to Workers, so the connections to
+// clients are maintained here, on the page, and their packets are relayed to the Worker. See server.worker.ts.
+// --------------------------------------------------------------------------------
+import Worker from './server.worker';
+import { vec3 } from 'gl-matrix';
+import { SignalSocket, ClientId } from './net/SignalSocket';
+import { createDefaultListeners } from './net/NetModule';
+import { Transport, TransportEvent } from './net/Transport';
+import { NetGraph, NetGraphPanel, NetGraphStats } from './net/NetDebug';
+import { ServerWorkerMsg, ServerWorkerMessage } from './net/WorkerSocket';
+import { ServerConfig } from './server';
+import { SimState } from './World';
+
+/**
+ * A drop-in replacement for Server, which runs the simulation in a Worker.
+ * @NOTE: The server's net graph panels only show the ping and clock of each client. Packet statuses are not forwarded.
+ */
+export class ServerWorker {
+    private worker: Worker;
+    private signalSocket?: SignalSocket;
+    private transports = new Map<number, Transport>();
+    private nextSocketId = 0;
+
+    // The most recent skeleton received for each avatar, and whether a newer one has been requested
+    private skeletonLines: (vec3[] | undefined)[] = [];
+    private skeletonRequested: boolean[] = [];
+
+    // A panel in the client's net graph for each of the server's clients, and the latest stats to display in them
+    private graphPanels = new Map<ClientId, NetGraphPanel>();
+    private graphStats?: NetGraphStats;
+    private graphRequested = false;
+
+    // Resolves the promise returned by stopRecording()
+    private onRecording?: (data?: Uint8Array) => void;
+
+    constructor() {
+        this.worker = new Worker();
+        this.worker.onmessage = (e: MessageEvent) => this.onMessage(e.data);
+
+        // The client also uses window.onbeforeunload, so don't replace it
+        window.addEventListener('beforeunload', this.terminate.bind(this));
+    }
+
+    async onConnect(signalSocket: SignalSocket) {
+        this.signalSocket = signalSocket;
+        this.configure({ botTakeover: signalSocket.botTakeover });
+
+        const listeners = createDefaultListeners(signalSocket);
+        await Promise.all(listeners.map(listener => listener.listen(this.onConnectLocal.bind(this))));
+    }
+
+    /**
+     * Accept a new connection from a client, e.g. from a WebUdpSocketFactory, RelaySocketFactory or LoopbackSocket
+     */
+    onConnectLocal(transport: Transport) {
+        const socket = this.nextSocketId++;
+        this.transports.set(socket, transport);
+
+        transport.on(TransportEvent.Open, () => this.post({ type: ServerWorkerMsg.Open, socket }));
+        transport.on(TransportEvent.Message, (data: ArrayBuffer) => {
+            this.post({ type: ServerWorkerMsg.Receive, socket, data }, [data]);
+        });
+        transport.once(TransportEvent.Close, () => {
+            // If the Worker closed this transport, it already knows
+            if (this.transports.delete(socket)) this.post({ type: ServerWorkerMsg.Close, socket });
+        });
+
+        this.post({
+            type: ServerWorkerMsg.Accept,
+            socket,
+            clientId: transport.clientId,
+            peerId: transport.peerId,
+            session: transport.session,
+            isOpen: transport.isOpen,
+            name: transport.name,
+        });
+    }
+
+    /**
+     * @see Server.seed()
+     */
+    seed(state: SimState) {
+        this.post({ type: ServerWorkerMsg.Seed, state });
+    }
+
+    configure(config: ServerConfig) {
+        this.post({ type: ServerWorkerMsg.Configure, config });
+    }
+
+    terminate() {
+        this.removeGraphPanels([]);
+        for (const transport of this.transports.values()) transport.close();
+        if (this.signalSocket) this.signalSocket.close();
+        this.worker.terminate();
+    }
+
+    startRecording() {
+        this.post({ type: ServerWorkerMsg.StartRecording });
+    }
+
+    /**
+     * @see Server.stopRecording()
+     */
+    stopRecording(): Promise<Uint8Array | undefined> {
+        return new Promise(resolve => {
+            this.onRecording = resolve;
+            this.post({ type: ServerWorkerMsg.StopRecording });
+        });
+    }
+
+    // Debug hooks for the client. See the equivalents on Server.
+    setClockDebug(paused: boolean, speed: number) {
+        this.post({ type: ServerWorkerMsg.SetClockDebug, paused, speed });
+    }
+
+    stepClock() {
+        this.post({ type: ServerWorkerMsg.StepClock });
+    }
+
+    /**
+     * The Worker can only respond asynchronously, so this returns the latest skeleton that it has sent (one or more
+     * frames old) and requests a new one.
+     */
+    getSkeletonLines(avatarIdx: number) {
+        if (!this.skeletonRequested[avatarIdx]) {
+            this.skeletonRequested[avatarIdx] = true;
+            this.post({ type: ServerWorkerMsg.RequestSkeleton, avatarIdx });
+        }
+        return this.skeletonLines[avatarIdx];
+    }
+
+    /**
+     * Like getSkeletonLines(), this displays the latest stats that the Worker has sent, and requests newer ones
+     */
+    updateNetGraph() {
+        const graph: NetGraph | undefined = window.client?.net.graph;
+        if (!graph) return;
+
+        if (!this.graphRequested) {
+            this.graphRequested = true;
+            this.post({ type: ServerWorkerMsg.RequestNetGraph });
+        }
+
+        if (!this.graphStats) return;
+        const clientServerTime = window.client.clock.serverTime;
+        for (const { id, ping } of this.graphStats.clients) {
+            let panel = this.graphPanels.get(id);
+            if (!panel) {
+                panel = graph.addPanel(`Server: ${id}`);
+                this.graphPanels.set(id, panel);
+            }
+            panel.update(ping, clientServerTime, undefined, this.graphStats.serverTime);
+        }
+    }
+
+    /**
+     * Remove the net graph panels of every client that is not in the list, e.g. because it has disconnected
+     */
+    private removeGraphPanels(keep: ClientId[]) {
+        for (const [id, panel] of this.graphPanels) {
+            if (keep.includes(id)) continue;
+            window.client?.net.graph.removePanel(panel);
+            this.graphPanels.delete(id);
+        }
+    }
+
+    private post(msg: ServerWorkerMessage, transfer: Transferable[] = []) {
+        this.worker.postMessage(msg, transfer);
+    }
+
+    private onMessage(msg: ServerWorkerMessage) {
+        switch (msg.type) {
+            case ServerWorkerMsg.Send: {
+                const transport = this.transports.get(msg.socket!);
+                if (transport) transport.send(msg.data!);
+            } break;
+
+            case ServerWorkerMsg.Close: {
+                const transport = this.transports.get(msg.socket!);
+                this.transports.delete(msg.socket!);
+                if (transport) transport.close();
+            } break;
+
+            case ServerWorkerMsg.SkeletonLines: {
+                this.skeletonLines[msg.avatarIdx!] = msg.lines;
+                this.skeletonRequested[msg.avatarIdx!] = false;
+            } break;
+
+            case ServerWorkerMsg.NetGraph: {
+                this.graphStats = msg.netGraph;
+                this.graphRequested = false;
+                this.removeGraphPanels(msg.netGraph!.clients.map(client => client.id));
+            } break;
+
+            case ServerWorkerMsg.Recording: {
+                if (this.onRecording) this.onRecording(msg.data ? new Uint8Array(msg.data) : undefined);
+                this.onRecording = undefined;
+            } break;
+
+            default: console.warn('ServerWorker: Unexpected message', msg);
+        }
+    }
+}
@@ -22,9 +22,12 @@ const colorScratch = vec4.fromValues(1,0,0,1);
 const scratch3Vec = new Vector3(vec3.create());
 const scratchPoints = new Array(64 * 2).fill(0).map(a => vec3.create());
 
-export function drawSkeleton(skeleton: Skeleton, color: vec4 = colorScratch) {
+/**
+ * @returns A pair of points for each bone, from the parent's world position to the bone's. 
+ *          The points are only valid until the next call.
+ */
+export function getSkeletonLines(skeleton: Skeleton): vec3[] {
   const pointPairs: vec3[] = scratchPoints;
-  if (!skeleton) return;
 
   for (let i = 0; i < skeleton.bones.length; i++) {
     const bone = skeleton.bones[i];
@@ -39,5 +42,10 @@ export function drawSkeleton(skeleton: Skeleton, color: vec4 = colorScratch) {
     }
   }
 
-  DebugRenderUtils.renderLines(pointPairs.slice(0, skeleton.bones.length * 2), color);
+  return pointPairs.slice(0, skeleton.bones.length * 2);
+}
+
+export function drawSkeleton(skeleton: Skeleton, color: vec4 = colorScratch) {
+  if (!skeleton) return;
+  DebugRenderUtils.renderLines(getSkeletonLines(skeleton), color);
 }
\ No newline at end of file
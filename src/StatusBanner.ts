@@ -0,0 +1,33 @@
+/**
+ * A single line of text displayed across the top of the screen, for status messages such as "Reconnecting..."
+ */
+export class StatusBanner {
+    dom: HTMLElement;
+
+    constructor() {
+        const container = document.createElement('div');
+        container.style.cssText = `
+            position:absolute;
+            top:0;
+            left:0;
+            right:0;
+            padding:6pt;
+            font-family: Monaco, monospace;
+            font-size: 12pt;
+            text-align:center;
+            background:rgba(50,50,50,0.8);
+            z-index:10000;
+            pointer-events:none;
+            color:white`;
+        this.dom = container;
+    }
+
+    show(parent: HTMLElement, message: string) {
+        this.dom.textContent = message;
+        if (this.dom.parentNode !== parent) parent.appendChild(this.dom);
+    }
+
+    hide() {
+        if (this.dom.parentNode) this.dom.parentNode.removeChild(this.dom);
+    }
+}
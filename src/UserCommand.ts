@@ -1,6 +1,7 @@
 import { InputAction } from "./Input";
 import { defined, assert } from "./util";
 import { Buf } from "./Buf";
+import { BitBuf, Quantize, Quantizer } from "./BitBuf";
 
 export class UserCommand {
     frame: number; // Not transmitted 
@@ -10,35 +11,51 @@ export class UserCommand {
     horizontalAxis: number; // 2 bits (1, 0, -1)
     actions: InputAction; // X bits
 
-    static serialize(buf: Buf, cmd: UserCommand): number {
-        // @TODO: Quantize on setUserCommand. Any prediction happening on the client should use a cmd that is equivalent to the one returned by serialize() and then deserialize()
-        const heading = Math.atan2(cmd.headingZ, cmd.headingX);
-        Buf.writeAngle16(buf, heading);
-        
-        let bits = 0;
-        bits |= 0b00000011 & ((Math.sign(cmd.verticalAxis) + 1) << 0);
-        bits |= 0b00001100 & ((Math.sign(cmd.horizontalAxis) + 1) << 2);
-        Buf.writeByte(buf, bits);
-        Buf.writeByte(buf, cmd.actions);
-
-        return 4;
+    static serialize(bb: BitBuf, cmd: UserCommand) {
+        kHeading.write(bb, Math.atan2(cmd.headingZ, cmd.headingX));
+        kAxis.write(bb, Math.sign(cmd.verticalAxis));
+        kAxis.write(bb, Math.sign(cmd.horizontalAxis));
+        getActionsQuantizer().write(bb, cmd.actions);
     }
     
-    static deserialize(dst: UserCommand, buf: Buf): number {
-        const heading = Buf.readAngle16(buf);
+    static deserialize(dst: UserCommand, bb: BitBuf) {
+        const heading = kHeading.read(bb, 0);
         dst.headingX = Math.cos(heading);
         dst.headingZ = Math.sin(heading);
         
-        let bits = Buf.readByte(buf);
-        dst.verticalAxis   = ((bits & 0b00000011) >> 0) - 1;
-        dst.horizontalAxis = ((bits & 0b00001100) >> 2) - 1;
+        dst.verticalAxis = kAxis.read(bb, 0);
+        dst.horizontalAxis = kAxis.read(bb, 0);
+        dst.actions = getActionsQuantizer().read(bb, 0);
+    }
 
-        dst.actions = Buf.readByte(buf);
+    /**
+     * Reduce the precision of a command (in place) so that it is equivalent to the one the server will receive after 
+     * serialize() and deserialize(). Any prediction on the client must use quantized commands to match the server.
+     */
+    static quantize(cmd: UserCommand): UserCommand {
+        const bb = new BitBuf(scratchBuf.clear());
+        UserCommand.serialize(bb, cmd);
+        BitBuf.flush(bb);
 
-        return 4;
+        scratchBuf.offset = 0;
+        UserCommand.deserialize(cmd, new BitBuf(scratchBuf));
+        return cmd;
     }
 }
 
+const kHeading = Quantize.angle(16);
+const kAxis = Quantize.int(-1, 1);
+
+// @NOTE: Input imports this module, so InputAction may not be defined yet when this module is evaluated (e.g. when the
+//        server is the entry point). The quantizer is created on first use instead.
+let actionsQuantizer: Quantizer<number> | undefined;
+function getActionsQuantizer() {
+    if (!actionsQuantizer) actionsQuantizer = Quantize.int(0, (InputAction.TargetRight << 1) - 1);
+    return actionsQuantizer;
+}
+
+const scratchBuf = new Buf(new Uint8Array(16));
+
 export const kEmptyCommand: UserCommand = {
     frame: -1,
     headingX: 0,
@@ -0,0 +1,8 @@
+// --------------------------------------------------------------------------------
+// Shared modules access globals through `window` (e.g. window.setTimeout), which does not exist in a Worker. Its 
+// equivalent is `self`. This must be the first import of any worker that runs game modules, so that it is evaluated 
+// before modules which touch `window` during their own evaluation (e.g. Audio).
+// --------------------------------------------------------------------------------
+(self as any).window = self;
+
+export {};
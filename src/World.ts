@@ -1,7 +1,7 @@
 import { vec3 } from "gl-matrix";
 import { assert, defined, defaultValue, arrayRemove, assertDefined } from "./util";
 import { delerp, lerp } from "./MathHelpers";
-import { Buf } from "./Buf";
+import { BitBuf, Quantize } from "./BitBuf";
 
 let gEntityId = 0;
 
@@ -77,6 +77,13 @@ export class SimStream {
     return this.stateBuffer[frame % this.bufferFrameCount];
   }
 
+  /**
+   * @returns The most recent state in the stream, or undefined if no states have been added
+   */
+  getLatestState(): SimState | undefined {
+    return this.latestFrame >= 0 ? this.getState(this.latestFrame) : undefined;
+  }
+
   lerpState(frame: number, result: SimState) {
     const aFrame = this.getPreviousFrame(frame);
     const bFrame = this.getNextFrame(frame);
@@ -85,8 +92,7 @@ export class SimStream {
     const bValid = defined(bFrame);
 
     if (aValid && !bValid) {
-      // Extrapolate snapshot for t1 based on t0-1 and t0;
-      console.warn('Extrapolation not yet implemented')
+      // The stream has run dry. The caller may choose to extrapolateState() instead.
       return false;
     } else if (!aValid && bValid) {
       // Inverse extrapolate snapshot for t0 based on t1 and t1+1;
@@ -100,19 +106,36 @@ export class SimStream {
       const a = this.getState(aFrame!);
       const b = this.getState(bFrame!);
 
-      if (a === b) {
-        Object.assign(result, a);
-        return true;
-      }
-
       // Interpolate
-      const t = delerp(aFrame!, bFrame!, frame);
+      const t = (a === b) ? 0 : delerp(aFrame!, bFrame!, frame);
       interpolateSimState(result, a, b, t);
 
       return true;
     }
   }
 
+  /**
+   * Extrapolate the state for a frame that is newer than any state in the stream. The origin, orientation and speed of
+   * each entity continue to change at the rate they did between the two latest states. Other fields are held.
+   * @param maxFrames The maximum number of frames to extrapolate. Beyond this, the extrapolated state is held.
+   * @param fromFrame Extrapolate from this frame instead of the latest state before `frame`
+   * @returns The frame that was extrapolated from, or undefined if there are no states from which to extrapolate
+   */
+  extrapolateState(frame: number, result: SimState, maxFrames: number, fromFrame?: number) {
+    const bFrame = defined(fromFrame) ? fromFrame : this.getPreviousFrame(frame);
+    if (!defined(bFrame) || !this.hasState(bFrame)) return undefined;
+
+    const aFrame = this.getPreviousFrame(bFrame - 1);
+    const b = this.getState(bFrame);
+    const a = defined(aFrame) ? this.getState(aFrame) : b;
+
+    const targetFrame = Math.min(frame, bFrame + maxFrames);
+    const t = (a === b) ? 0 : delerp(aFrame!, bFrame, targetFrame);
+    extrapolateSimState(result, a, b, t);
+
+    return bFrame;
+  }
+
   hasState(frame: number) {
     const snap = this.stateBuffer[frame % this.bufferFrameCount];
     return defined(snap) && snap.frame === frame;
@@ -225,7 +248,7 @@ function getAdditions(a: SimState, b: SimState, result: number[]) {
   }
 }
 
-function interpolateSimState(result: SimState, a: SimState, b: SimState, t: number) {
+export function interpolateSimState(result: SimState, a: SimState, b: SimState, t: number) {
   assert(result.entities instanceof Array, 'Result must be a valid SimState');
 
   result.frame = lerp(a.frame, b.frame, t);
@@ -274,57 +297,215 @@ function interpolateSimState(result: SimState, a: SimState, b: SimState, t: numb
   assert(result.entities.length === rEntityCount);
 }
 
-export function serializeSimState(buf: Buf, simFrame: SimState) {
-  Buf.writeInt(buf, simFrame.frame);
-  Buf.writeByte(buf, simFrame.entities.length);
-
-  for (let i = 0; i < simFrame.entities.length; i++) {
-    const e = simFrame.entities[i];
-    Buf.writeByte(buf, e.id);
-    Buf.writeByte(buf, e.type);
-
-    Buf.writeByte(buf, e.flags);
-    Buf.writeFloat(buf, e.origin[0]);
-    Buf.writeFloat(buf, e.origin[1]);
-    Buf.writeFloat(buf, e.origin[2]);
-    Buf.writeFloat(buf, e.orientation[0]);
-    Buf.writeFloat(buf, e.orientation[1]);
-    Buf.writeFloat(buf, e.orientation[2]);
-    Buf.writeChar(buf, e.parent);
-
-    Buf.writeByte(buf, e.state);
-    Buf.writeInt(buf, e.stateStartFrame);
-    Buf.writeFloat(buf, e.speed);
+/**
+ * Extrapolate each entity in state B beyond B, based on its change since state A. 
+ * @param t Normalized time between A and B. Values greater than 1 are extrapolated. 
+ */
+function extrapolateSimState(result: SimState, a: SimState, b: SimState, t: number) {
+  assert(result.entities instanceof Array, 'Result must be a valid SimState');
+
+  result.frame = lerp(a.frame, b.frame, t);
+  result.entities.length = 0;
+
+  // Only entities that exist in the latest state are extrapolated
+  for (let aIdx = 0, bIdx = 0; bIdx < b.entities.length; bIdx++) {
+    const entityB = b.entities[bIdx];
+    while (aIdx < a.entities.length && a.entities[aIdx].id < entityB.id) { aIdx += 1; }
+    const entityA = a.entities[aIdx];
+
+    // @TODO: Use an entity pool instead of creating?
+    const entityR = createEntity();
+
+    if (defined(entityA) && entityA.id === entityB.id) {
+      lerpEntity(entityR, entityA, entityB, t);
+      
+      // Linear extrapolation can overshoot these, keep them valid
+      if (vec3.length(entityR.orientation) > 0) vec3.normalize(entityR.orientation, entityR.orientation);
+      entityR.speed = Math.max(0, entityR.speed);
+    } else {
+      // Newly added entities have no history, so hold their state
+      copyEntity(entityR, entityB);
+    }
+
+    result.entities.push(entityR);
   }
 }
 
-export function deserializeSimState(buf: Buf, simFrame: SimState) {
-  simFrame.frame = Buf.readInt(buf);
+/**
+ * Bitmask of the EntityState fields included in a serialized entity
+ */
+enum EntityField {
+  Type = 1 << 0,
+  Flags = 1 << 1,
+  Origin = 1 << 2,
+  Orientation = 1 << 3,
+  Parent = 1 << 4,
+  State = 1 << 5, // Includes stateStartFrame
+  Speed = 1 << 6,
+
+  All = (1 << 7) - 1,
+}
+
+// Entity ids are in the range [0, kMaxEntities). A parent of -1 means that the entity has no parent.
+const kMaxEntities = 256;
+
+/**
+ * Quantization of each EntityState field for transmission. Note that the id is written separately.
+ */
+const kEntitySchema = {
+  type: Quantize.int(0, 15),
+  flags: Quantize.int(0, 255),
+  origin: Quantize.vector(Quantize.fixed(-32768, 32768, 1/64)),
+  orientation: Quantize.normal(12),
+  parent: Quantize.int(-1, kMaxEntities - 1),
+  state: Quantize.int(0, 255),
+  stateStartFrame: Quantize.int32,
+  speed: Quantize.fixed(0, 4096, 1/16),
+};
+
+const kEntityId = Quantize.int(0, kMaxEntities - 1);
+const kEntityCount = Quantize.int(0, kMaxEntities);
+const kEntityMask = Quantize.int(0, EntityField.All);
+const kBaselineOffset = Quantize.int(0, 255);
+
+/**
+ * Write a SimState to a buffer. If a baseline state is provided, only the entities (and fields) which differ from the 
+ * baseline are written. The receiver must have the same baseline in order to reconstruct the state. 
+ * @param baseline An older state that the receiver is known to have, e.g. the last state it acknowledged
+ */
+export function serializeSimState(bb: BitBuf, simFrame: SimState, baseline?: SimState) {
+  Quantize.int32.write(bb, simFrame.frame);
+
+  const baselineOffset = defined(baseline) ? simFrame.frame - baseline.frame : 0;
+  kBaselineOffset.write(bb, baselineOffset);
+
+  const baseEntities = defined(baseline) ? baseline.entities : [];
+  const removals: number[] = [];
+  const changes: number[] = [];
+  const masks: number[] = [];
+
+  // Entities are in sorted order, so walk both lists to find removals, additions, and modifications
+  for (let aIdx = 0, bIdx = 0; aIdx < baseEntities.length || bIdx < simFrame.entities.length;) {
+    const entityA = baseEntities[aIdx];
+    const entityB = simFrame.entities[bIdx];
+
+    if (aIdx >= baseEntities.length || (entityB && entityA.id > entityB.id)) {
+      // Entity added since the baseline
+      changes.push(bIdx++);
+      masks.push(EntityField.All);
+    } else if (bIdx >= simFrame.entities.length || (entityA && entityB.id > entityA.id)) {
+      // Entity removed since the baseline
+      removals.push(entityA.id);
+      aIdx += 1;
+    } else {
+      // Entity present in both, only send the fields that have changed (if any)
+      const mask = diffEntity(entityA, entityB);
+      if (mask !== 0) {
+        changes.push(bIdx);
+        masks.push(mask);
+      }
+      aIdx += 1;
+      bIdx += 1;
+    }
+  }
 
-  const entityCount = Buf.readByte(buf);
+  kEntityCount.write(bb, removals.length);
+  for (const id of removals) {
+    kEntityId.write(bb, id);
+  }
+
+  kEntityCount.write(bb, changes.length);
+  for (let i = 0; i < changes.length; i++) {
+    const e = simFrame.entities[changes[i]];
+    const mask = masks[i];
+
+    kEntityId.write(bb, e.id);
+    kEntityMask.write(bb, mask);
+
+    if (mask & EntityField.Type) kEntitySchema.type.write(bb, e.type);
+    if (mask & EntityField.Flags) kEntitySchema.flags.write(bb, e.flags);
+    if (mask & EntityField.Origin) kEntitySchema.origin.write(bb, e.origin);
+    if (mask & EntityField.Orientation) kEntitySchema.orientation.write(bb, e.orientation);
+    if (mask & EntityField.Parent) kEntitySchema.parent.write(bb, e.parent);
+    if (mask & EntityField.State) {
+      kEntitySchema.state.write(bb, e.state);
+      kEntitySchema.stateStartFrame.write(bb, e.stateStartFrame);
+    }
+    if (mask & EntityField.Speed) kEntitySchema.speed.write(bb, e.speed);
+  }
+}
+
+/**
+ * Read a SimState written by serializeSimState(). If it was delta compressed, the baseline is fetched from the stream.
+ * @returns false if the state references a baseline that is no longer in the stream. The buffer is still consumed.
+ */
+export function deserializeSimState(bb: BitBuf, simFrame: SimState, stream?: SimStream): boolean {
+  simFrame.frame = Quantize.int32.read(bb, 0);
+
+  const baselineOffset = kBaselineOffset.read(bb, 0);
+  const baselineFrame = simFrame.frame - baselineOffset;
+  const hasBaseline = baselineOffset > 0 && defined(stream) && stream.hasState(baselineFrame);
+  const valid = baselineOffset === 0 || hasBaseline;
+
+  // Start with a copy of all baseline entities...
+  simFrame.entities.length = 0;
+  if (hasBaseline) {
+    const baseline = stream!.getState(baselineFrame);
+    for (const e of baseline.entities) {
+      // @TODO: An entity pool to reuse from
+      simFrame.entities.push(copyEntity(createEntity(), e));
+    }
+  }
 
-  for (let i = 0; i < entityCount; i++) {
-    // @TODO: An entity pool to reuse from
-    const e = createEntity();
+  // ... minus those that have been removed...
+  const removalCount = kEntityCount.read(bb, 0);
+  for (let i = 0; i < removalCount; i++) {
+    const id = kEntityId.read(bb, 0);
+    const idx = simFrame.entities.findIndex(e => e.id === id);
+    if (idx >= 0) simFrame.entities.splice(idx, 1);
+  }
 
-    e.id = Buf.readByte(buf);
-    e.type = Buf.readByte(buf);
+  // ... and apply all modifications and additions
+  const changeCount = kEntityCount.read(bb, 0);
+  for (let i = 0; i < changeCount; i++) {
+    const id = kEntityId.read(bb, 0);
+    const mask = kEntityMask.read(bb, 0);
 
-    e.flags = Buf.readByte(buf);
-    e.origin[0] = Buf.readFloat(buf);
-    e.origin[1] = Buf.readFloat(buf);
-    e.origin[2] = Buf.readFloat(buf);
-    e.orientation[0] = Buf.readFloat(buf);
-    e.orientation[1] = Buf.readFloat(buf);
-    e.orientation[2] = Buf.readFloat(buf);
-    e.parent = Buf.readChar(buf);
+    let e = simFrame.entities.find(e => e.id === id);
+    if (!defined(e)) {
+      e = createEntity();
+      e.id = id;
 
-    e.state = Buf.readByte(buf);
-    e.stateStartFrame = Buf.readInt(buf);
-    e.speed = Buf.readFloat(buf);
+      // Maintain sorted order
+      const idx = simFrame.entities.findIndex(other => other.id > id);
+      simFrame.entities.splice(idx >= 0 ? idx : simFrame.entities.length, 0, e);
+    }
 
-    simFrame.entities.push(e);
+    if (mask & EntityField.Type) e.type = kEntitySchema.type.read(bb, e.type);
+    if (mask & EntityField.Flags) e.flags = kEntitySchema.flags.read(bb, e.flags);
+    if (mask & EntityField.Origin) kEntitySchema.origin.read(bb, e.origin);
+    if (mask & EntityField.Orientation) kEntitySchema.orientation.read(bb, e.orientation);
+    if (mask & EntityField.Parent) e.parent = kEntitySchema.parent.read(bb, e.parent);
+    if (mask & EntityField.State) {
+      e.state = kEntitySchema.state.read(bb, e.state);
+      e.stateStartFrame = kEntitySchema.stateStartFrame.read(bb, e.stateStartFrame);
+    }
+    if (mask & EntityField.Speed) e.speed = kEntitySchema.speed.read(bb, e.speed);
   }
+
+  return valid;
+}
+
+function diffEntity(a: EntityState, b: EntityState): number {
+  let mask = 0;
+  if (a.type !== b.type) mask |= EntityField.Type;
+  if (a.flags !== b.flags) mask |= EntityField.Flags;
+  if (!vec3.exactEquals(a.origin, b.origin)) mask |= EntityField.Origin;
+  if (!vec3.exactEquals(a.orientation, b.orientation)) mask |= EntityField.Orientation;
+  if (a.parent !== b.parent) mask |= EntityField.Parent;
+  if (a.state !== b.state || a.stateStartFrame !== b.stateStartFrame) mask |= EntityField.State;
+  if (a.speed !== b.speed) mask |= EntityField.Speed;
+  return mask;
 }
 
 export function createEntity(): EntityState {
@@ -413,6 +594,7 @@ export class World {
    */
   createGameObject(type: GameObjectType, options?: Partial<EntityState>): GameObject {
     const id = this.entityId++;
+    assert(id < kMaxEntities, `Entity ids must be less than ${kMaxEntities} to be transmitted`);
     const initialState = Object.assign(createEntity(), options, { id, type });
     const object = this.createImmediate(initialState);
     return object;
@@ -453,9 +635,10 @@ export class World {
     const { additions, removals } = this.stream.addState(state);
 
     // Create any new entities... 
+    // @NOTE: Objects receive a copy of the entity, so that modifying them doesn't change the (immutable) stream
     for (const index of additions) {
       const entity = state.entities[index];
-      this.createImmediate(entity);
+      this.createImmediate(copyEntity(createEntity(), entity));
     }
 
     // ... and delete any removed ones
@@ -471,11 +654,13 @@ export class World {
       entities: [],
     };
 
+    // Copy each object's state. States in the stream must not change, as they may be used as delta baselines.
     for (const object of this.objects) {
-      state.entities.push(object.state);
+      state.entities.push(copyEntity(createEntity(), object.state));
     }
 
     this.stream.addState(state);
+    return state;
   }
 
   private createImmediate(state: EntityState) {
@@ -0,0 +1,42 @@
+/// <reference types="node" />
+// --------------------------------------------------------------------------------
+// Runs a local stand-in for the MoonBeacon signal server, so that the game can be developed and tested offline.
+// Build with 'yarn build:node', then run e.g.
+//     node dist/beacon.js --port 8888
+// --------------------------------------------------------------------------------
+import * as fs from 'fs';
+import { SignalServer, SignalServerOptions } from './net/SignalServer';
+
+/**
+ * All accepted command line options are documented here
+ */
+const kCommandLineOptions: Record<string, (options: SignalServerOptions, value: string) => void> = {
+    // The port to listen on. Development builds of the game expect 8888.
+    'port': (options, value) => options.port = Number.parseInt(value, 10),
+
+    // A JSON file containing an array of RTCIceServers, e.g. [{ "urls": "turn:example.com", "username": "u", 
+    // "credential": "c" }]. Defaults to a public STUN server.
+    'ice': (options, value) => options.iceServers = JSON.parse(fs.readFileSync(value, 'utf8')),
+}
+
+function parseCommandLine(args: string[]) {
+    const options: SignalServerOptions = { port: 8888 };
+
+    for (let i = 0; i < args.length; i += 2) {
+        const func = kCommandLineOptions[args[i].replace(/^--/, '')];
+        if (!func || i + 1 >= args.length) throw new Error(`Unknown option '${args[i]}'`);
+        func(options, args[i + 1]);
+    }
+
+    if (!(options.port > 0)) throw new Error('--port must be a positive integer');
+    return options;
+}
+
+try {
+    const options = parseCommandLine(process.argv.slice(2));
+    new SignalServer(options);
+    console.log(`SignalServer: Listening on port ${options.port}`);
+} catch (error) {
+    console.error(error.message);
+    process.exit(1);
+}
@@ -8,11 +8,13 @@ import { DebugMenu } from './DebugMenu';
 // Modules
 import { AvatarSystemClient } from './Avatar';
 import { CameraSystem } from './CameraSystem';
+import { ChatSystem } from './Chat';
 import { Clock } from './Clock';
 import { Compositor } from './Compositor';
 import { DebugGrid } from './DebugGrid';
 import { GlobalUniforms } from './GlobalUniforms';
 import { InputManager } from './Input';
+import { MatchSystemClient } from './Match';
 import { NetModuleClient } from './net/NetModule';
 import { ResourceManager } from './resources/ResourceLoading';
 import { StateManager } from './SaveState';
@@ -28,6 +30,8 @@ import { EnvironmentSystem } from './Environment';
 import { ParticleSystem } from './Particles';
 import { AudioMixer, SoundManager } from './Audio';
 import { UI } from './UI';
+import { Transport } from './net/Transport';
+import { Replay, ReplaySystemClient } from './Replay';
 
 export const enum InitErrorCode {
     SUCCESS,
@@ -49,14 +53,17 @@ export class Client {
     public avatar = new AvatarSystemClient();
     public clock = new Clock();
     public cameraSystem = new CameraSystem(this.camera);
+    public chat = new ChatSystem();
     public compositor = new Compositor(this.canvas, this.gfxDevice);
     public debugGrid = new DebugGrid();
     public environment = new EnvironmentSystem();
     public globalUniforms = new GlobalUniforms(this.gfxDevice);
     public input = new InputManager();
+    public match = new MatchSystemClient();
     public sound = new SoundManager();
     public net = new NetModuleClient();
     public particles = new ParticleSystem();
+    public replay = new ReplaySystemClient();
     public resources = new ResourceManager();
     public state = new StateManager();
     public ui = new UI();
@@ -97,6 +104,9 @@ export class Client {
         this.particles.initialize(this);
         this.skybox.initialize(this);
         this.ui.initialize(this);
+        this.chat.initialize(this);
+        this.match.initialize(this);
+        this.replay.initialize(this);
         this.debugGrid.initialize(this);
         this.state.initialize(this);
         
@@ -122,6 +132,21 @@ export class Client {
         this.net.onConnect(serverId);
     }
 
+    onConnectLocal(transport: Transport) {
+        this.net.onConnectLocal(transport);
+    }
+
+    /**
+     * Watch a recorded match instead of connecting to a server
+     */
+    onReplay(replay: Replay) {
+        this.replay.load(replay);
+    }
+
+    onHostChanged(serverId: string) {
+        this.net.onHostChanged(serverId);
+    }
+
     onClick(e: MouseEvent) {
         this.ui.onClick(e.clientX, e.clientY);
     }
@@ -143,11 +168,10 @@ export class Client {
     private updateFixed() {
         while (this.clock.updateFixed()) {
             this.input.updateFixed(this);
-
-            // @TODO: Avatar prediction
+            this.avatar.updateFixed(this);
 
             if (this.net.client.state === NetClientState.Active) {
-                const cmd = assertDefined(this.userCommands.getUserCommand(this.clock.simFrame));
+                const cmd = this.net.client.spectator ? undefined : assertDefined(this.userCommands.getUserCommand(this.clock.simFrame));
                 this.net.client.transmitClientFrame(this.clock.simFrame, cmd);
             }
         }
@@ -159,6 +183,9 @@ export class Client {
             let displayFrameTime = this.clock.renderTime / this.clock.simDt;
             const valid = this.net.client.getSimState(displayFrameTime, this.displayFrame);
             if (valid) this.world.loadState(this.displayFrame);
+        } else if (this.replay.replay) {
+            const valid = this.replay.getSimState(this.displayFrame);
+            if (valid) this.world.loadState(this.displayFrame);
         } else {
             // @HACK
             // this.displaySnapshot = baselineSnapshot;
@@ -174,6 +201,8 @@ export class Client {
         this.particles.update(this);
         this.skybox.update(this);
         this.ui.update(this);
+        this.chat.update(this);
+        this.match.update(this);
         this.globalUniforms.update();
     }
 
@@ -10,4 +10,7 @@ declare module "*.frag" {
     const content:  import('webpack-glsl-minify').GlslShader;
     export default content;
 }
-declare type Nullable<T> = T | null;
\ No newline at end of file
+declare type Nullable<T> = T | null;
+
+// Optional WebRTC implementation for Node, used by the dedicated server
+declare module "wrtc";
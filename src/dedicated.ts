@@ -0,0 +1,161 @@
+/// <reference types="node" />
+// --------------------------------------------------------------------------------
+// A dedicated server, which runs the authoritative Server headlessly under Node so that rooms can be hosted without
+// keeping a browser tab open. Build with 'yarn build:node', then run e.g.
+//     node dist/dedicated.js --room DUEL1 --bots 2
+// --------------------------------------------------------------------------------
+import { setResourceRoot } from './NodeGlobals';
+import * as fs from 'fs';
+import { Server } from './server';
+import { SignalSocket, RoomRequest, kDefaultSignalServerAddress } from './net/SignalSocket';
+import { TransportListener } from './net/Transport';
+import { WebUdpSocketFactory } from './net/WebUdp';
+import { RelaySocketFactory } from './net/Relay';
+import { generateRoomCode, normalizeRoomName } from './net/RoomCode';
+import { kAvatarCount } from './Avatar';
+import { defined } from './util';
+
+interface DedicatedConfig {
+    signalServer: string;
+    room: RoomRequest;
+    tickRate: number; // Server ticks per second
+    botCount?: number;
+    transports: string[];
+    recordPath?: string;
+}
+
+/**
+ * All accepted command line options are documented here. Options without a value are flags.
+ * E.g. 'node dist/dedicated.js --room DUEL1 --private --tickrate 120'
+ */
+const kCommandLineOptions: Record<string, (config: DedicatedConfig, value: string) => void> = {
+    // Host a specific room by name or code. If omitted, a new room is created with a random code.
+    'room': (config, value) => config.room.name = normalizeRoomName(value),
+
+    // Hide the room from the lobby list. It can only be joined by name.
+    'private': (config) => config.room.isPrivate = true,
+
+    // Don't let bots control the avatars of disconnected or inactive players
+    'no-takeover': (config) => config.room.botTakeover = false,
+
+    // The number of bots that play in the room until players take their avatars. The default is 1.
+    'bots': (config, value) => config.botCount = Number.parseInt(value, 10),
+
+    // How often the server checks for fixed frames to simulate. The simulation rate itself is fixed.
+    'tickrate': (config, value) => config.tickRate = Number(value),
+
+    'signal': (config, value) => config.signalServer = value,
+
+    // How clients connect to this server, as a comma separated list. See kTransports. E.g. '--transport relay'
+    'transport': (config, value) => config.transports = value.split(','),
+
+    // Record the match into a replay file, which is written when the server is stopped with Ctrl+C
+    'record': (config, value) => config.recordPath = value,
+
+    // The directory containing the 'data' folder. Defaults to the working directory.
+    'data': (config, value) => setResourceRoot(value),
+}
+
+/**
+ * Transports that the dedicated server can accept connections with
+ */
+const kTransports: Record<string, (signalSocket: SignalSocket) => Promise<TransportListener>> = {
+    // Node has no WebRTC implementation of its own. The optional 'wrtc' package provides one.
+    'webudp': async (signalSocket: SignalSocket) => {
+        const wrtc = await import('wrtc').catch(() => {
+            throw new Error(`The 'webudp' transport requires the 'wrtc' package. Install it with 'yarn add wrtc'.`);
+        });
+        global.RTCPeerConnection = wrtc.RTCPeerConnection;
+        return new WebUdpSocketFactory(signalSocket);
+    },
+
+    // Packets are tunneled through the signal server. Clients use this if they fail to connect via WebUDP.
+    'relay': async (signalSocket: SignalSocket) => new RelaySocketFactory(signalSocket),
+}
+
+// The number of random room codes to try before giving up, if each is already taken
+const kMaxRoomCodeAttempts = 5;
+
+function parseCommandLine(args: string[]) {
+    const config: DedicatedConfig = {
+        signalServer: kDefaultSignalServerAddress,
+        room: {},
+        tickRate: 62.5,
+        transports: ['webudp', 'relay'],
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const key = args[i].replace(/^--/, '');
+        const func = kCommandLineOptions[key];
+        if (!func) throw new Error(`Unknown option '${args[i]}'`);
+
+        const hasValue = i + 1 < args.length && !args[i + 1].startsWith('--');
+        func(config, hasValue ? args[++i] : '');
+    }
+
+    if (!(config.tickRate > 0)) throw new Error('--tickrate must be a positive number');
+    if (defined(config.botCount) && !(config.botCount >= 0 && config.botCount <= kAvatarCount)) {
+        throw new Error(`--bots must be between 0 and ${kAvatarCount}`);
+    }
+    if (config.recordPath === '') throw new Error('--record requires a file name');
+    if (config.transports.some(transport => !kTransports[transport])) {
+        throw new Error(`--transport must be a list of: ${Object.keys(kTransports).join(', ')}`);
+    }
+
+    // Socket.io assumes https:// when there is no page to take the protocol from
+    if (!/^\w+:\/\//.test(config.signalServer)) config.signalServer = `http://${config.signalServer}`;
+
+    return config;
+}
+
+/**
+ * Join the requested room, which we must be the first to join. Without a name, create a new room with a random code.
+ * An empty request would join the signal server's choice of room, which may already have a host.
+ */
+async function joinRoom(config: DedicatedConfig) {
+    const randomName = !config.room.name;
+
+    for (let attempt = 1; ; attempt++) {
+        const request: RoomRequest = randomName ? { ...config.room, name: generateRoomCode() } : config.room;
+
+        const signalSocket = new SignalSocket();
+        const listeners = await Promise.all(config.transports.map(transport => kTransports[transport](signalSocket)));
+        await signalSocket.connect(config.signalServer, request);
+
+        // The first client in a room is its server. If someone else got there first, there's nothing for us to do.
+        if (signalSocket.serverId === signalSocket.clientId) return { signalSocket, listeners };
+        signalSocket.close();
+
+        // Unless the code was random, in which case we can try another
+        if (!randomName || attempt >= kMaxRoomCodeAttempts) {
+            throw new Error(`Room ${signalSocket.roomName} is already hosted by ${signalSocket.serverId}`);
+        }
+    }
+}
+
+async function Main() {
+    const config = parseCommandLine(process.argv.slice(2));
+    const { signalSocket, listeners } = await joinRoom(config);
+
+    const server = new Server({ tickInterval: 1000 / config.tickRate });
+    server.onConnect(signalSocket, listeners);
+    server.configure({ botTakeover: signalSocket.botTakeover, botCount: config.botCount });
+    if (config.recordPath) server.startRecording();
+
+    console.log(`Hosting ${signalSocket.isPrivate ? 'private ' : ''}room ${signalSocket.roomName} via ${config.signalServer}`);
+
+    process.on('SIGINT', () => {
+        if (config.recordPath) {
+            fs.writeFileSync(config.recordPath, server.stopRecording()!);
+            console.log(`Saved replay to ${config.recordPath}`);
+        }
+
+        server.terminate();
+        process.exit(0);
+    });
+}
+
+Main().catch(error => {
+    console.error(error.message);
+    process.exit(1);
+});
@@ -1,7 +1,14 @@
 import { Client } from './client';
 import { Server } from './server';
-import { SignalSocket } from './net/SignalSocket';
-import { IS_DEVELOPMENT } from './version';
+import { ServerWorker } from './ServerWorker';
+import { SignalSocket, RoomRequest, kDefaultSignalServerAddress } from './net/SignalSocket';
+import { HostMigration } from './net/HostMigration';
+import { createLoopback } from './net/Loopback';
+import { parseNetConditions } from './net/NetConditioner';
+import { normalizeRoomName } from './net/RoomCode';
+import { Lobby, RoomLabel } from './Lobby';
+import { parseReplay, fetchReplay } from './Replay';
+import { defaultValue, defined } from './util';
 
 // Google Analytics
 declare var gtag: (command: string, eventName: string, eventParameters: { [key: string]: string }) => void;
@@ -22,11 +29,50 @@ declare global {
  */
 const kUrlParameters: Record<string, (client: Client, value: any) => void> = {
     'debug': (client: Client) => client.debugMenu.show(),
+    'offline': () => window.config.offline = true,
+
+    // Join a specific room by name or code, e.g. 'moonduel.io?room=K7QXM'. The room is created if it doesn't exist.
+    'room': (client: Client, value: string) => window.config.room = normalizeRoomName(value),
+
+    // Skip the lobby and join the fullest public room that has space, e.g. 'moonduel.io?quickplay'
+    'quickplay': () => window.config.quickPlay = true,
+    'spectate': (client: Client) => client.net.spectate = true,
+
+    // Watch a recorded match instead of joining a room, e.g. 'moonduel.io?replay=duel.replay'. Without a URL, e.g.
+    // 'moonduel.io?replay', the replay file can be dropped onto the page. Record matches from the debug menu.
+    'replay': (client: Client, value: string) => window.config.replay = value,
+
+    // Run the server on the page's thread rather than in a Worker, i.e. 'moonduel.io?serverThread=main'. This is 
+    // easier to debug, and the server's net graph panels also show packet statuses. It only has an effect if this
+    // client becomes the host.
+    'serverThread': (client: Client, value: string) => window.config.serverOnMainThread = value === 'main',
+
+    // Let bots control the avatars of disconnected or inactive players, e.g. 'moonduel.io?bots=0' to disable. 
+    // This only has an effect when creating a new room.
+    'bots': (client: Client, value: string) => window.config.botTakeover = !(value === '0' || value === 'off'),
+
+    // Simulated network conditions, e.g. 'moonduel.io?net=latency:50,loss:0.02'. See NetConditions for all keys.
+    'net': (client: Client, value: string) => {
+        parseNetConditions(value, client.net.netConditions.up);
+        parseNetConditions(value, client.net.netConditions.down);
+    },
+    'netUp': (client: Client, value: string) => parseNetConditions(value, client.net.netConditions.up),
+    'netDown': (client: Client, value: string) => parseNetConditions(value, client.net.netConditions.down),
 }
 
 // @HACK
 window.config = {
-    kSignalServerAddress: IS_DEVELOPMENT ? 'localhost:8888' : '3.23.86.226:8888',
+    kSignalServerAddress: kDefaultSignalServerAddress,
+}
+
+/**
+ * Start a server which is hosted by this page. It runs in a Worker when possible. See ServerWorker.
+ */
+function createServer() {
+    const onMainThread = window.config.serverOnMainThread || typeof Worker === 'undefined';
+    const server = onMainThread ? new Server() : new ServerWorker();
+    window.server = server;
+    return server;
 }
 
 async function Main() {
@@ -44,22 +90,73 @@ async function Main() {
         if (func) func(client, value);
     });
 
+    // Play back a replay without any networking. If it fails to load, the player can drop another one onto the page.
+    if (defined(window.config.replay)) {
+        let url: string = window.config.replay;
+        let error: string | undefined;
+        while (true) {
+            try {
+                const data = url ? await fetchReplay(url) : await client.replay.requestFile(client.toplevel, error);
+                client.onReplay(parseReplay(data));
+                return;
+            } catch (e) {
+                console.error(e);
+                url = '';
+                error = e.message;
+            }
+        }
+    }
+
+    // Start a server in this page and connect to it immediately, without waiting for the signal server
+    if (window.config.offline) {
+        const server = createServer();
+        server.configure({ botTakeover: defaultValue(window.config.botTakeover, true) });
+
+        const loopback = createLoopback();
+        server.onConnectLocal(loopback.server);
+        client.onConnectLocal(loopback.client);
+        return;
+    }
+
+    // Unless a room was named (or quick play requested), the player chooses one from the lobby
+    let roomRequest: RoomRequest = { name: window.config.room, quickPlay: window.config.quickPlay };
+    if (!roomRequest.name && !roomRequest.quickPlay) {
+        roomRequest = await new Lobby().show(client.toplevel, window.config.kSignalServerAddress);
+    }
+    roomRequest.botTakeover = window.config.botTakeover;
+
     // @HACK
     // Begin connecting to the requested room
     // If we're the first ones in there, start up a server instance and assign it this socket
     // Then create a new socket and establish a new connection as a client
     const signalSocket = new SignalSocket();
-    await signalSocket.connect(window.config.kSignalServerAddress);
+    await signalSocket.connect(window.config.kSignalServerAddress, roomRequest);
+
+    // Let the player share this room, either by name or by copying the URL
+    new RoomLabel().show(client.toplevel, signalSocket.roomName, signalSocket.isPrivate);
+    urlParams.delete('quickplay');
+    urlParams.set('room', signalSocket.roomName);
+    window.history.replaceState(null, '', `?${urlParams.toString()}`);
 
     const isServer = signalSocket.serverId === signalSocket.clientId;
     
     if (isServer) {
-        const server = new Server();
+        const server = createServer();
         server.onConnect(signalSocket);
-        window.server = server;
-    } else {
-        signalSocket.close();
     }
+
+    // Clients stay in the room so that they can take over if the server leaves
+    const hostMigration = new HostMigration();
+    hostMigration.initialize(signalSocket, {
+        getLatestFrame: () => defaultValue(client.world.stream.getLatestState()?.frame, -1),
+        becomeHost: async () => {
+            const server = createServer();
+            const state = client.world.stream.getLatestState();
+            if (state) server.seed(state);
+            await server.onConnect(signalSocket);
+        },
+        onHostChanged: (serverId: string) => client.onHostChanged(serverId),
+    });
         
     client.onConnect(signalSocket.serverId);
 }
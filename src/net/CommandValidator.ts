@@ -0,0 +1,141 @@
+import { UserCommand } from "../UserCommand";
+import { InputAction } from "../Input";
+import { clamp } from "../MathHelpers";
+
+export enum Violation {
+    FrameOutOfRange, // Commands for a frame far from the server's current frame
+    InvalidAxis, // An axis value outside of [-1, 1]
+    ActionSpam, // Attacks or target switches toggled faster than a human could press them
+    PacketFlood, // More packets than one per frame (plus some slack)
+
+    _Count
+}
+
+/**
+ * What the server does when a client sends invalid data. The data itself is always dropped or corrected.
+ */
+export enum ViolationResponse {
+    Ignore,
+    Warn, // Log each violation
+    Kick, // Log each violation, and disconnect clients that continue to send invalid data
+}
+
+// Commands are only accepted for frames within this many of the server's current frame. The client runs ahead of the
+// server by up to 250ms (~16 frames), and commands are kept in a 64 frame buffer.
+const kMaxFramesAhead = 32;
+const kMaxFramesBehind = 32;
+
+// Each group of actions may be pressed this many times in a burst, then refills at this rate (per second)
+const kToggleBurst = 8;
+const kTogglesPerSecond = 8;
+const kAttackActions = InputAction.AttackSide | InputAction.AttackVert | InputAction.AttackPunch;
+const kTargetActions = InputAction.TargetLeft | InputAction.TargetRight;
+
+const kMaxPacketsPerSecond = 150; // Clients send ~63 per second
+
+const kViolationWindowMs = 1000;
+
+interface ToggleAllowance {
+    mask: InputAction;
+    count: number;
+}
+
+/**
+ * Inspects the commands and packets received from a single client on the server. Commands are corrected in place, or
+ * rejected. Violations are counted so that the server can decide how to respond.
+ */
+export class CommandValidator {
+    recentViolations = 0; // Violations within the last kViolationWindowMs
+
+    private synchronized = false;
+    private lastValidatedFrame = -1;
+    private prevActions = 0;
+    private suppressedActions = 0;
+    private toggles: ToggleAllowance[] = [
+        { mask: kAttackActions, count: kToggleBurst },
+        { mask: kTargetActions, count: kToggleBurst },
+    ];
+
+    private windowStart = 0;
+    private windowPackets = 0;
+
+    constructor(private onViolation: (violation: Violation) => void) {}
+
+    /**
+     * @returns false if the packet should be dropped
+     */
+    validatePacket(receiveTime: number) {
+        if (receiveTime - this.windowStart > kViolationWindowMs) {
+            this.windowStart = receiveTime;
+            this.windowPackets = 0;
+            this.recentViolations = 0;
+        }
+
+        // Only report the flood once per window, but drop every packet beyond the limit
+        const maxPackets = kMaxPacketsPerSecond * kViolationWindowMs / 1000;
+        this.windowPackets += 1;
+        if (this.windowPackets > maxPackets) {
+            if (this.windowPackets - 1 <= maxPackets) this.record(Violation.PacketFlood);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * @param frame The newest frame in a ClientFrame message
+     * @returns false if the message should be dropped
+     */
+    validateFrame(frame: number, serverFrame: number) {
+        const inRange = frame <= serverFrame + kMaxFramesAhead && frame >= serverFrame - kMaxFramesBehind;
+
+        // Until the client has synchronized its clock to ours (after it receives its first frame), its frame numbers
+        // are meaningless. They're only suspicious once they have been correct.
+        if (inRange) this.synchronized = true;
+        else if (this.synchronized) this.record(Violation.FrameOutOfRange);
+
+        return inRange;
+    }
+
+    /**
+     * Correct an incoming command in place. Commands must be validated in frame order.
+     * @param frameDtSec The duration of one simulation frame
+     * @returns false if the command has already been validated (i.e. it is a redundant copy)
+     */
+    validateCommand(cmd: UserCommand, frameDtSec: number) {
+        if (cmd.frame <= this.lastValidatedFrame) return false;
+        const frameCount = this.lastValidatedFrame >= 0 ? cmd.frame - this.lastValidatedFrame : 1;
+        this.lastValidatedFrame = cmd.frame;
+
+        if (Math.abs(cmd.horizontalAxis) > 1 || Math.abs(cmd.verticalAxis) > 1) {
+            cmd.horizontalAxis = clamp(cmd.horizontalAxis, -1, 1);
+            cmd.verticalAxis = clamp(cmd.verticalAxis, -1, 1);
+            this.record(Violation.InvalidAxis);
+        }
+
+        // Each press of an action consumes an allowance. If none remains, the action is ignored until it is released.
+        const pressed = cmd.actions & ~this.prevActions;
+        this.prevActions = cmd.actions;
+        this.suppressedActions &= cmd.actions;
+
+        for (const toggle of this.toggles) {
+            toggle.count = Math.min(toggle.count + frameCount * frameDtSec * kTogglesPerSecond, kToggleBurst);
+            if ((pressed & toggle.mask) === 0) continue;
+
+            if (toggle.count >= 1) {
+                toggle.count -= 1;
+            } else {
+                this.suppressedActions |= pressed & toggle.mask;
+                this.record(Violation.ActionSpam);
+            }
+        }
+
+        cmd.actions &= ~this.suppressedActions;
+        return true;
+    }
+
+    private record(violation: Violation) {
+        this.recentViolations += 1;
+        this.onViolation(violation);
+    }
+}
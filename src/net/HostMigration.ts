@@ -0,0 +1,171 @@
+import { SignalSocket, SignalSocketEvents, ClientId } from "./SignalSocket";
+import { defined } from "../util";
+
+interface MigrationMessage {
+    hostCandidate?: { latestFrame: number };
+    hostElected?: boolean;
+    hostFailed?: boolean; // The elected client was unable to start a server
+}
+
+interface HostMigrationDependencies {
+    /** The most recent simulation frame that this client has received from the server, or -1 */
+    getLatestFrame(): number;
+
+    /** Start a server which listens on the room's SignalSocket, and resolve once it is accepting connections */
+    becomeHost(): Promise<void>;
+
+    /** Connect this client to the new server. This is called on every client, including the new host. */
+    onHostChanged(serverId: ClientId): void;
+}
+
+// How long to wait for the other clients in the room to declare their candidacy
+const kElectionPeriodMs = 1000;
+
+// How long to wait for the winner of an election to announce that it is hosting, before electing another client
+const kAnnouncePeriodMs = 5000;
+
+/**
+ * When the client that is acting as the server leaves the room, elect one of the remaining clients to take over.
+ * Each client broadcasts the latest frame that it has received. The client with the most recent state wins, with ties
+ * broken by ClientId so that every client reaches the same decision. The winner starts a Server from that state and
+ * announces itself, and then every client reconnects to it.
+ * If the winner fails to start a server, or never announces itself (e.g. it left), the election is held again without
+ * it. If clients saw different candidates and two winners announce themselves, the lower ClientId is followed.
+ * @NOTE: Only clients which keep their room SignalSocket open can participate.
+ */
+export class HostMigration {
+    private signalSocket: SignalSocket;
+    private deps: HostMigrationDependencies;
+
+    private candidates: Record<ClientId, number> = {};
+    private electionTimeout?: number;
+    private announceTimeout?: number;
+
+    // Clients that won an election during this migration but failed to host. They can't be elected again.
+    private excluded = new Set<ClientId>();
+
+    // The client that announced itself as the new host, once one has
+    private host?: ClientId;
+
+    initialize(signalSocket: SignalSocket, deps: HostMigrationDependencies) {
+        this.signalSocket = signalSocket;
+        this.deps = deps;
+
+        signalSocket.on(SignalSocketEvents.ServerLeft, this.onServerLeft.bind(this));
+        signalSocket.on(SignalSocketEvents.RoomMessage, this.onRoomMessage.bind(this));
+    }
+
+    private onServerLeft(serverId: ClientId) {
+        console.log(`HostMigration: Server ${serverId} has left. Electing a new host...`);
+
+        this.host = undefined;
+        this.excluded.clear();
+        this.beginElection();
+    }
+
+    private onRoomMessage(msg: MigrationMessage, from: ClientId) {
+        if (from === this.signalSocket.clientId) return;
+
+        if (msg.hostCandidate) {
+            if (!this.excluded.has(from)) this.candidates[from] = msg.hostCandidate.latestFrame;
+        } else if (msg.hostElected) {
+            this.onHostElected(from);
+        } else if (msg.hostFailed) {
+            this.onElectionFailed(from);
+        }
+    }
+
+    /**
+     * Declare our candidacy (unless we have been excluded), and elect a host once the other candidates have declared
+     */
+    private beginElection() {
+        const clientId = this.signalSocket.clientId;
+        if (!this.excluded.has(clientId)) {
+            const latestFrame = this.deps.getLatestFrame();
+            this.candidates[clientId] = latestFrame;
+
+            const msg: MigrationMessage = { hostCandidate: { latestFrame } };
+            this.signalSocket.broadcast(msg);
+        }
+
+        window.clearTimeout(this.electionTimeout);
+        this.electionTimeout = window.setTimeout(this.elect.bind(this), kElectionPeriodMs);
+    }
+
+    private async elect() {
+        this.electionTimeout = undefined;
+
+        let winner: ClientId | undefined;
+        for (const id in this.candidates) {
+            if (this.excluded.has(id)) continue;
+            if (!defined(winner)) { winner = id; continue; }
+            const frameDiff = this.candidates[id] - this.candidates[winner];
+            if (frameDiff > 0 || (frameDiff === 0 && id < winner)) winner = id;
+        }
+        this.candidates = {};
+
+        if (!defined(winner)) {
+            console.error('HostMigration: No client was able to become the host');
+            return;
+        }
+
+        // Everyone else waits for the winner to announce that it is ready
+        const clientId = this.signalSocket.clientId;
+        if (winner !== clientId) {
+            const electedId = winner;
+            window.clearTimeout(this.announceTimeout);
+            this.announceTimeout = window.setTimeout(() => this.onElectionFailed(electedId), kAnnouncePeriodMs);
+            return;
+        }
+
+        console.log('HostMigration: We are the new host');
+        try {
+            await this.deps.becomeHost();
+        } catch (error) {
+            console.error('HostMigration: Failed to become the host', error);
+
+            const msg: MigrationMessage = { hostFailed: true };
+            this.signalSocket.broadcast(msg);
+            this.onElectionFailed(clientId);
+            return;
+        }
+
+        // Another client may have announced itself while we were starting, and it takes precedence
+        if (defined(this.host) && this.host < clientId) return;
+
+        const msg: MigrationMessage = { hostElected: true };
+        this.signalSocket.broadcast(msg);
+        this.onHostElected(clientId);
+    }
+
+    private onHostElected(hostId: ClientId) {
+        // If two clients were elected, e.g. because they saw different candidates, everyone follows the same one
+        // @NOTE: If we were the other host, our server is abandoned. None of the other clients will connect to it.
+        if (defined(this.host) && this.host <= hostId) return;
+
+        window.clearTimeout(this.electionTimeout);
+        window.clearTimeout(this.announceTimeout);
+        this.electionTimeout = undefined;
+        this.announceTimeout = undefined;
+        this.candidates = {};
+        this.host = hostId;
+
+        console.log(`HostMigration: ${hostId} is the new host`);
+        this.signalSocket.setServer(hostId);
+        this.deps.onHostChanged(hostId);
+    }
+
+    /**
+     * The winner of the election failed to start a server, or never announced itself. Elect another client.
+     */
+    private onElectionFailed(winner: ClientId) {
+        if (defined(this.host) || this.excluded.has(winner)) return;
+        console.warn(`HostMigration: ${winner} failed to become the host. Electing another...`);
+
+        window.clearTimeout(this.announceTimeout);
+        this.announceTimeout = undefined;
+
+        this.excluded.add(winner);
+        this.beginElection();
+    }
+}
@@ -0,0 +1,86 @@
+import { EventDispatcher } from "../EventDispatcher";
+import { Transport, TransportEvent, SessionInfo } from "./Transport";
+import { ClientId } from "./SignalSocket";
+import { assert, defaultValue } from "../util";
+
+export interface LoopbackOptions {
+    latency?: number; // One-way delay, in milliseconds
+    loss?: number; // Probability that each packet is dropped, in the range [0, 1]
+}
+
+let loopbackCount = 0;
+
+/**
+ * A Transport between two endpoints in the same page or process, e.g. a local Client and Server for offline play.
+ * Packets are always delivered asynchronously, as they would be by a real connection.
+ * @see createLoopback()
+ */
+export class LoopbackSocket extends EventDispatcher implements Transport {
+    clientId: ClientId;
+    peerId: ClientId;
+    session?: SessionInfo;
+    readonly name = 'Loopback';
+
+    latency: number;
+    loss: number;
+
+    private peer: LoopbackSocket;
+    private open = false;
+
+    get isOpen() { return this.open; }
+
+    constructor(clientId: ClientId, options: LoopbackOptions = {}) {
+        super();
+        this.clientId = clientId;
+        this.latency = defaultValue(options.latency, 0);
+        this.loss = defaultValue(options.loss, 0);
+    }
+
+    send(data: ArrayBuffer | ArrayBufferView): boolean {
+        if (!this.open) return false;
+
+        // Dropped packets are still considered sent
+        if (Math.random() < this.loss) return true;
+
+        // Copy the data, as the sender is free to reuse its buffer
+        const view = ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data);
+        const packet = view.slice().buffer;
+
+        setTimeout(() => { if (this.peer.open) this.peer.fire(TransportEvent.Message, packet) }, this.latency);
+        return true;
+    }
+
+    close() {
+        if (!this.open) return;
+
+        this.open = false;
+        this.fire(TransportEvent.Close);
+        this.peer.close();
+    }
+
+    static connect(a: LoopbackSocket, b: LoopbackSocket) {
+        assert(!a.open && !b.open);
+        a.peer = b; a.peerId = b.clientId;
+        b.peer = a; b.peerId = a.clientId;
+
+        // Give both sides a chance to subscribe to events before opening
+        setTimeout(() => {
+            a.open = true;
+            b.open = true;
+            a.fire(TransportEvent.Open);
+            b.fire(TransportEvent.Open);
+        });
+    }
+}
+
+/**
+ * Create a connected pair of LoopbackSockets. Both will fire TransportEvent.Open asynchronously.
+ * @param options latency and loss applied to packets sent in each direction
+ */
+export function createLoopback(options: LoopbackOptions = {}) {
+    const id = loopbackCount++;
+    const client = new LoopbackSocket(`loopback-client-${id}`, options);
+    const server = new LoopbackSocket(`loopback-server-${id}`, options);
+    LoopbackSocket.connect(client, server);
+    return { client, server };
+}
@@ -1,9 +1,10 @@
 
-import { WebUdpSocket, WebUdpEvent } from './WebUdp';
+import { Transport, TransportEvent } from './Transport';
 import { EventDispatcher } from '../EventDispatcher';
-import { defined, defaultValue, assert } from '../util';
+import { defined, defaultValue, assert, arrayRemove } from '../util';
 import { Buf } from '../Buf';
 import { NetClientStats } from './NetDebug';
+import { NetConditioner } from './NetConditioner';
 
 export enum NetChannelEvent {
     Receive = "rec",
@@ -12,6 +13,7 @@ export enum NetChannelEvent {
 
 export interface AckInfo {
     tag: number;
+    sequence: number;
     rttTime: number;
     sentTime: number;
     ackTime: number;
@@ -35,31 +37,55 @@ interface Packet {
     rcvdTime: number;
 }
 
-const kPacketHeaderSize = 8;
+interface FragmentSet {
+    sequence: SequenceNumber;
+    count: number;
+    received: number;
+    fragments: (Uint8Array | undefined)[]; // Payloads only, without headers
+    header: Uint8Array; // Copied from the first fragment to arrive. All fragments of a message share the same header.
+    firstRcvdTime: number;
+}
+
+export const kPacketHeaderSize = 10; // sequence (2), ack (2), ack bitfield (4), fragment index (1), fragment count (1)
 const kSequenceNumberDomain = 2 ** 16;
 const kSequenceNumberDomainHalf = kSequenceNumberDomain / 2;
 const kPacketHistoryLength = 512; // Approximately 8 seconds worth of packets at 60hz
 const kMaxRTT = 1000; // Maximum round-trip-time before a packet is considered lost
-export const kPacketMaxPayloadSize = 1024;
+export const kPacketMaxPayloadSize = 1024; // Per datagram. Larger messages are split into fragments.
+const kMaxFragmentCount = 64;
+const kFragmentTimeout = kMaxRTT; // Incomplete fragment sets older than this (in ms) are discarded
+export const kMaxMessageSize = kPacketMaxPayloadSize * kMaxFragmentCount;
 
 /**
  * High level class controlling communication with the server. Handles packet reliability, and rtt measurement.
+ * Messages larger than kPacketMaxPayloadSize are split into fragments which share a single sequence number. The 
+ * receiver only processes (and acknowledges) the message once every fragment has arrived.
  */
 export class NetChannel extends EventDispatcher {
-    private socket: WebUdpSocket;
+    private socket: Transport;
 
     private remoteSequence = -1;
     private localSequence = 0;
     private localHistory: Packet[] = [];
     private remoteHistory: Packet[] = [];
 
-    private packetBuffer = new Buf(new Uint8Array(kPacketHeaderSize + kPacketMaxPayloadSize));
+    private packetBuffer = new Buf(new Uint8Array(kPacketHeaderSize + kMaxMessageSize));
+    private fragmentSets: FragmentSet[] = [];
+
+    // Simulated network conditions, applied to each direction independently
+    outgoing = new NetConditioner();
+    incoming = new NetConditioner();
 
     get isOpen() { return this.socket.isOpen; }
 
-    initialize(socket: WebUdpSocket) {
+    /** The sequence number that will be assigned to the next packet sent */
+    get nextSequence() { return this.localSequence; }
+
+    initialize(socket: Transport) {
         this.socket = socket;
-        this.socket.on(WebUdpEvent.Message, (evt) => this.receive(evt.data));
+        this.socket.on(TransportEvent.Message, (data: ArrayBuffer) => {
+            this.incoming.process(data, packet => this.receive(packet));
+        });
 
         const emptyHeader = {
             sequence: -1,
@@ -180,19 +206,121 @@ export class NetChannel extends EventDispatcher {
 
         // Transmit
         const data = this.packetBuffer.finish();
-        this.socket.send(data);
+        const payloadSize = data.byteLength - kPacketHeaderSize;
+        if (payloadSize <= kPacketMaxPayloadSize) {
+            data[8] = 0; // Fragment index
+            data[9] = 1; // Fragment count
+            this.transmit(data);
+        } else {
+            this.transmitFragments(data);
+        }
 
         this.localSequence = sequenceNumberWrap(this.localSequence + 1);
     }
 
+    private transmit(data: Uint8Array) {
+        if (this.outgoing.enabled) {
+            // The packet buffer is reused, so packets that may be delayed need their own copy
+            this.outgoing.process(data.slice().buffer, packet => this.socket.send(packet));
+        } else {
+            this.socket.send(data);
+        }
+    }
+
+    /**
+     * Split a message into fragments of at most kPacketMaxPayloadSize bytes, each with a copy of the message header
+     */
+    private transmitFragments(data: Uint8Array) {
+        const payloadSize = data.byteLength - kPacketHeaderSize;
+        const count = Math.ceil(payloadSize / kPacketMaxPayloadSize);
+        assert(count <= kMaxFragmentCount, 'Message is too large to be fragmented');
+
+        for (let i = 0; i < count; i++) {
+            const start = kPacketHeaderSize + i * kPacketMaxPayloadSize;
+            const end = Math.min(start + kPacketMaxPayloadSize, data.byteLength);
+
+            const fragment = new Uint8Array(kPacketHeaderSize + end - start);
+            fragment.set(data.subarray(0, kPacketHeaderSize));
+            fragment.set(data.subarray(start, end), kPacketHeaderSize);
+            fragment[8] = i;
+            fragment[9] = count;
+
+            this.transmit(fragment);
+        }
+    }
+
+    /**
+     * Buffer a fragment until all of the fragments of its message have been received
+     * @returns The reassembled message (with a single header), or undefined if it is not yet complete
+     */
+    private reassemble(data: Uint8Array): ArrayBuffer | undefined {
+        const sequence = data[0] | (data[1] << 8);
+        const index = data[8];
+        const count = data[9];
+        const now = performance.now();
+
+        // Discard any sets that will never be completed
+        this.fragmentSets = this.fragmentSets.filter(set => now - set.firstRcvdTime < kFragmentTimeout);
+
+        if (count > kMaxFragmentCount || index >= count) {
+            console.warn('NetChannel: Ignoring malformed fragment');
+            return undefined;
+        }
+
+        let set = this.fragmentSets.find(s => s.sequence === sequence);
+        if (!defined(set)) {
+            set = {
+                sequence,
+                count,
+                received: 0,
+                fragments: new Array(count),
+                header: data.slice(0, kPacketHeaderSize),
+                firstRcvdTime: now,
+            };
+            this.fragmentSets.push(set);
+        }
+
+        if (set.count !== count) return undefined;
+        if (defined(set.fragments[index])) return undefined; // Duplicate
+
+        set.fragments[index] = data.slice(kPacketHeaderSize);
+        set.received += 1;
+        if (set.received < set.count) return undefined;
+
+        // Complete. Stitch the payloads back together behind the header.
+        arrayRemove(this.fragmentSets, set);
+        const size = set.fragments.reduce((total, f) => total + f!.byteLength, kPacketHeaderSize);
+        const message = new Uint8Array(size);
+        message.set(set.header);
+        let offset = kPacketHeaderSize;
+        for (const fragment of set.fragments) {
+            message.set(fragment!, offset);
+            offset += fragment!.byteLength;
+        }
+
+        return message.buffer;
+    }
+
     /**
      * Process a packet that was received from the server. 
      * Fires NetChannelEvent.Receive with the packet payload for any interested listeners. 
-     * @param data The raw data received from the WebUDP connection
+     * @param data The raw data received from the Transport
      */
     private receive(data: ArrayBuffer) {
+        const bytes = new Uint8Array(data);
+        const sequence = bytes[0] | (bytes[1] << 8);
+
+        // Fragments of messages that are already stale don't need to be reassembled
+        const fragmentCount = bytes[9];
+        if (fragmentCount > 1) {
+            if (!sequenceNumberGreaterThan(sequence, this.remoteSequence)) return;
+
+            const message = this.reassemble(bytes);
+            if (!defined(message)) return;
+            data = message;
+        }
+
         const buf = new Buf(new Uint8Array(data));
-        const sequence = buf.dataView.getUint16(0, true);
 
         // If this packet is newer than the latest packet we've received, update
         if (sequenceNumberGreaterThan(sequence, this.remoteSequence)) {
@@ -234,6 +362,7 @@ export class NetChannel extends EventDispatcher {
 
         const ackInfo = {
             tag: packet.tag,
+            sequence: packet.header.sequence,
             ackTime: packet.ackTime,
             sentTime: packet.sendTime,
             rttTime: packet.ackTime - packet.sendTime,
@@ -1,20 +1,30 @@
 import { NetChannel, NetChannelEvent, AckInfo } from "./NetChannel";
 import { assert, defined, assertDefined, defaultValue } from "../util";
-import { WebUdpSocket, WebUdpEvent } from "./WebUdp";
+import { WebUdpSocket } from "./WebUdp";
+import { RelaySocket } from "./Relay";
+import { Transport, TransportEvent, SessionInfo } from "./Transport";
+import { NetConditions } from "./NetConditioner";
+import { Handshake, RejectReason, kHandshakeSchema, kRejectReason, createHandshake, checkHandshake } from "./Protocol";
 import { UserCommandBuffer, UserCommand, kEmptyCommand } from "../UserCommand";
 import { EventDispatcher } from "../EventDispatcher";
 import { ClientId } from "./SignalSocket";
 import { NetGraphPacketStatus, NetGraphPanel, NetClientStats, NetClientStat } from "./NetDebug";
 import { Buf } from "../Buf";
+import { BitBuf, Quantize } from "../BitBuf";
 import { clamp, lerp } from "../MathHelpers";
 import { Clock } from "../Clock";
 import { SimStream, serializeSimState, deserializeSimState, SimState } from "../World";
+import { vec3 } from "gl-matrix";
+import { ReliableChannel } from "./ReliableChannel";
+import { ChatMessage, Emote, kMaxChatBytes } from "../Chat";
+import { MatchState, serializeMatchState, deserializeMatchState } from "../Match";
+import { CommandValidator, Violation } from "./CommandValidator";
 
 export enum NetClientState {
     Free, 
     Disconnected, // We were connected, but it has been closed
-    Connected,    // Socket is open, but no frames received
-    Active,       // A frame has been received from the peer
+    Connected,    // Socket is open, but the handshake has not yet completed
+    Active,       // The handshake has completed, and a message has been received from the peer
     Background,   // We're still active, but running with reduced resources
 
     // The Quake 3 Arena states:
@@ -32,6 +42,13 @@ export enum NetClientEvents {
     Activated = 'act',
     ServerTimeAdjust = 'stime',
     ReceiveServerFrame = 'rsf',
+    Handshake = 'hand', // The peer's Handshake was received. Fired with the Handshake and a RejectReason if incompatible.
+    Rejected = 'rej', // The server rejected our connection. Fired with the RejectReason.
+    JoinRequest = 'join', // The client asked to play or spectate. Fired with true if it wants to spectate.
+    Promoted = 'prom', // A spectator has been given an avatar. clientIndex is now valid.
+    Chat = 'chat', // Fired with a ChatMessage
+    MatchState = 'match', // Fired with the server's latest MatchState
+    Violation = 'viol', // The client sent invalid data (server only). Fired with the Violation.
 }
 
 enum MsgId {
@@ -39,87 +56,107 @@ enum MsgId {
     ClientFrame = 1,
     VisChange = 2,
     ConnectInfo = 3,
+    Reliable = 4, // A block of messages from the ReliableChannel
+    Handshake = 5,
+    Reject = 6,
+    Join = 7, // Sent by the client to request an avatar, or to spectate
+    Chat = 8, // Sent by the client, then relayed by the server to every client
+    Match = 9, // Sent by the server whenever the MatchState changes
 
     _Count
 }
 
-const kMsgIdMask  = 0b00000111;
-const kParityShift = 3;
-
-assert((kMsgIdMask+1) >= MsgId._Count, "Don't forget to update the bitmask!");
-
 /**
- * Send messages that will be sent repeatedly until acknowledged. Only one message may be in flight at a time.
- * @NOTE: This means that reliable messages will be sent AT MOST once every round-trip-time ms.
+ * Every message begins with this header. Messages are byte-aligned so that several may be packed into one packet.
  */
-class ReliableMessageManager {
-    private buffer: Uint8Array[] = [];
-    private sendTag?: number;
-    private sendParity = 0;
-    private recvParity = 0;
-
-    getMessageForTransmission(tag: number) {
-        if (this.buffer.length <= 0) return undefined;
-        
-        // Store the frame at which we're first sending this reliable message...
-        if (!defined(this.sendTag)) { this.sendTag = tag; }
-
-        return this.buffer[0];
-    }
-
-    ack(frame: number) {
-        // ... If we get an ack for any frame after we send the message, it was received
-        if (defined(this.sendTag) && Math.abs(frame) >= this.sendTag) {
-            this.buffer.shift();
-            this.sendTag = undefined;
-        }
-    }
-
-    send(data: Uint8Array) {
-        // The parity bit is toggle each transmission so that the receiver can detect duplicates
-        data[0] |= (this.sendParity & 1) << kParityShift;
-        this.sendParity ^= 1; 
-        
-        // Buffer the message until next transmit
-        this.buffer.push(data);
-    }
-
-    receive(buf: Buf) {
-        const idByte = Buf.peekByte(buf);
-
-        // If we've already received this reliable message, ignore
-        const parity = (idByte >> kParityShift) & 1;
-        const alreadyReceived = parity != this.recvParity;
-        if (!alreadyReceived) {
-            this.recvParity ^= 1;
-        }
+interface MsgHeader {
+    id: MsgId;
+}
 
-        return alreadyReceived;
-    }
+// @NOTE: The width of the header must not change when messages are added, so that the Handshake can always be read
+const kMaxMsgId = 15;
+const kMsgHeaderSchema = {
+    id: Quantize.int(0, kMaxMsgId),
+};
+assert(MsgId._Count - 1 <= kMaxMsgId);
+
+const kFrameDiff = Quantize.int(-8, 7);
+const kCommandCount = Quantize.int(0, 15);
+const kViewDelay = Quantize.int(0, 63); // Frames between the client's simulation frame and its displayed frame
+const kClientIndex = Quantize.int(0, 7);
+const kSessionToken = Quantize.int(0, 2 ** 31 - 1);
+const kFrameFraction = Quantize.fixed(0, 1, 1/255); // A fraction of simDt
+const kChatSender = Quantize.int(-1, 7); // A clientIndex, or kChatSpectator
+const kEmote = Quantize.int(0, 15);
+
+const kMaxReliableMessageSize = 255; // See ReliableChannel
+
+// Delta-compressed states may only reference baselines younger than this (in frames). It must be less than the 
+// length of the SimStream so that the receiver is guaranteed to still have the baseline. 
+const kMaxBaselineAge = 32;
+
+// After extrapolation, the displayed state blends back to the authoritative state with this half-life (in seconds)
+const kExtrapolationBlendHalfLife = 0.1;
+
+interface DisplayOffset {
+    origin: vec3;
+    orientation: vec3;
 }
 
+const scratchSimState: SimState = { frame: -1, entities: [] };
+
 export class NetClient extends EventDispatcher {
     id: string;
     clientIndex: number;
     state: NetClientState = NetClientState.Free;
 
+    private netConditions?: { outgoing: NetConditions, incoming: NetConditions };
+
+    // Issued by the server in ConnectInfo. Presenting it when reconnecting reclaims the same avatar.
+    sessionToken?: number;
+
+    // True once ConnectInfo has been sent (on the server) or received (on the client), i.e. the handshake succeeded
+    private joined = false;
+    private rejected = false;
+
+    // Spectators receive server frames but have no avatar, so clientIndex and sessionToken are not valid
+    spectator = false;
+
     lastRequestedFrame: number = -1;
     lastReceivedFrame: number = -1;
     lastTransmittedFrame: number = -1;
     lastAcknowledgedFrame: number = -1;
 
+    // The newest server frame that the client has reconstructed, and which may therefore be used as a delta baseline.
+    // This differs from lastAcknowledgedFrame, as a frame whose own baseline was missing is acknowledged but dropped.
+    lastReconstructedFrame: number = -1;
+
     lastReceivedTime: number = -1;
 
+    // How many frames behind its command frame the client is displaying the world (sent by the client)
+    viewDelay: number = 0;
+
     channel: NetChannel;
     stats: NetClientStats = new NetClientStats();
     get ping() { return this.stats.minMaxAve[NetClientStat.Ping][2]; }
 
     private simStream: SimStream;
     private userCommands: UserCommandBuffer = new UserCommandBuffer();
+
+    // Checks everything received from a client before it is trusted. Only present on the server.
+    validator?: CommandValidator;
     
     private fastestAck?: AckInfo;
 
-    private reliable = new ReliableMessageManager();
+    // Set once a WebUDP connection has failed. Later reconnections go straight to the relay.
+    private useRelay = false;
+
+    private reliable = new ReliableChannel();
+
+    private maxExtrapolation = 0; // In ms
+    private extrapolatedFrom?: number;
+    private displayOffsets: Record<number, DisplayOffset> = {};
+    private lastDisplayFrame = -1;
 
     // Debugging
     graphPanel?: NetGraphPanel;
@@ -128,17 +165,18 @@ export class NetClient extends EventDispatcher {
         super();
     }
 
-    private initialize(socket: WebUdpSocket) {
+    private initialize(socket: Transport) {
         assert(this.state === NetClientState.Free);
         console.debug(`NetClient: ${this.id} is attempting to connect`);
 
-        socket.on(WebUdpEvent.Open, () => {
+        const onOpen = () => {
             console.debug(`NetClient: ${this.id} connected`);
             this.state = NetClientState.Connected;
             this.fire(NetClientEvents.Connected);
-        });
+        };
+        socket.on(TransportEvent.Open, onOpen);
 
-        socket.on(WebUdpEvent.Close, () => {
+        socket.on(TransportEvent.Close, () => {
             console.debug(`NetClient: ${this.id} disconnected`);
             this.state = NetClientState.Disconnected;
             this.fire(NetClientEvents.Disconnected);
@@ -149,28 +187,92 @@ export class NetClient extends EventDispatcher {
         this.channel.on(NetChannelEvent.Receive, this.onMessage.bind(this));
         this.channel.on(NetChannelEvent.Acknowledge, this.onAck.bind(this));
         this.channel.initialize(socket);
+        this.sendReliable(MsgId.Handshake, bb => BitBuf.write(bb, kHandshakeSchema, createHandshake()));
+
+        if (defined(this.netConditions)) {
+            this.channel.outgoing.conditions = this.netConditions.outgoing;
+            this.channel.incoming.conditions = this.netConditions.incoming;
+        }
+
+        this.stats.setTransport(socket.name);
 
-        this.stats.initialize();
+        // The transport may have opened while we were deciding whether to use it. See connect().
+        if (socket.isOpen) onOpen();
     }
 
     /**
      * The Client calls this to connect to a specific ClientID that will act as the server
+     * @param session If this is a reconnection, the details from the previous session's ConnectInfo
      */
-    async connect(serverId: ClientId) {
-        const socket = new WebUdpSocket();
+    async connect(serverId: ClientId, session?: SessionInfo) {
+        if (!this.useRelay) {
+            const socket = new WebUdpSocket();
+
+            // Wait for the WebUdp socket to be assigned a ClientID by the signalling server
+            await socket.connect(serverId, session);
+            this.id = socket.clientId;
+
+            // Then for the WebRTC connection to succeed or fail (e.g. timeout), so that we can fall back to the relay
+            const opened = await new Promise<boolean>(resolve => {
+                socket.once(TransportEvent.Open, () => resolve(true));
+                socket.once(TransportEvent.Close, () => resolve(false));
+            });
+            if (opened) return this.initialize(socket);
+
+            console.warn(`NetClient: Unable to connect to ${serverId} via WebUDP. Falling back to the relay.`);
+            this.useRelay = true;
+        }
 
-        // Wait for the WebUdp socket to be assigned a ClientID by the signalling server
-        await socket.connect(serverId);
-        this.id = socket.clientId;
+        const relay = new RelaySocket();
+        await relay.connect(serverId, session);
+        this.id = relay.clientId;
+
+        this.initialize(relay);
+    }
+
+    /**
+     * Establish a new connection to the server after this one has been disconnected. The server will return us to the 
+     * same session (and avatar) if it is still within its grace period. The server may be a different host than before,
+     * e.g. after a host migration.
+     * @NOTE: Any reliable messages that had not yet been acknowledged are lost
+     */
+    async reconnect(serverId: ClientId) {
+        // If a previous attempt failed to reach the signalling server, we will still be Free
+        assert(this.state === NetClientState.Disconnected || this.state === NetClientState.Free);
+
+        // Reset all per-connection state
+        this.state = NetClientState.Free;
+        this.lastRequestedFrame = -1;
+        this.lastReceivedFrame = -1;
+        this.lastTransmittedFrame = -1;
+        this.lastAcknowledgedFrame = -1;
+        this.lastReconstructedFrame = -1;
+        this.lastReceivedTime = -1;
+        this.fastestAck = undefined;
+        this.reliable = new ReliableChannel();
+        this.joined = false;
+
+        const session = defined(this.sessionToken) ? { token: this.sessionToken, clientIndex: this.clientIndex } : undefined;
+        return this.connect(serverId, session);
+    }
 
+    /**
+     * The Client calls this to connect to a server over an existing Transport, e.g. a LoopbackSocket
+     */
+    connectTransport(socket: Transport) {
+        this.id = socket.clientId;
         this.initialize(socket);
     }
 
     /**
-     * Accept a connection to a Client's NetClient produced by a WebUdpSocketFactory.
+     * Accept a connection to a Client's NetClient, e.g. one produced by a WebUdpSocketFactory.
      */
-    accept(socket: WebUdpSocket) {
+    accept(socket: Transport) {
         this.id = socket.peerId;
+        this.validator = new CommandValidator(violation => {
+            this.stats.onViolation(violation);
+            this.fire(NetClientEvents.Violation, violation);
+        });
         this.initialize(socket);
     }
 
@@ -179,6 +281,17 @@ export class NetClient extends EventDispatcher {
         this.channel.close();
     }
 
+    /**
+     * Simulate poor network conditions on this connection. The objects may be modified later, e.g. by the DebugMenu.
+     */
+    setNetConditions(outgoing: NetConditions, incoming: NetConditions) {
+        this.netConditions = { outgoing, incoming };
+        if (defined(this.channel)) {
+            this.channel.outgoing.conditions = outgoing;
+            this.channel.incoming.conditions = incoming;
+        }
+    }
+
     setNetGraphPanel(graphPanel: NetGraphPanel) {
         this.graphPanel = graphPanel;
     }
@@ -187,47 +300,92 @@ export class NetClient extends EventDispatcher {
         this.simStream = simStream;
     }
 
+    /**
+     * Set the maximum time (in ms) for which the state will be extrapolated when no newer state has been received
+     */
+    setMaxExtrapolation(maxExtrapolation: number) {
+        this.maxExtrapolation = maxExtrapolation;
+    }
+
     /**
      * Transmit only reliable messages. No frame data will be included. This is intended to be called when the main
      * client loop is not running so that reliable messages can be flushed.
      * @param index This must increase each time this function is called.
      */
     transmitReliable(index: number) {
-        // The absolute value of tag must increase monotinically, including the lastTransmittedFrame,
-        // so that the reliable layer can properly detect reception. It must be negative to avoid 
-        // increasing lastAcknowledgedFrame on ack.
+        // The tag must be negative to avoid increasing lastAcknowledgedFrame on ack. 
+        // The reliable layer detects reception using the packet sequence number, not the tag.
         const tag = -(this.lastTransmittedFrame + 1 + index);
 
         // If there are no more reliable messages, we're done
-        const reliableMsg = this.reliable.getMessageForTransmission(tag);
-        if (!reliableMsg) {
+        if (!this.reliable.hasPending) {
             return true;
         }
 
-        console.debug('Transmitting reliable message');
+        console.debug('Transmitting reliable messages');
 
-        // Send the message
+        // Send the messages
         const buf = this.channel.allocatePacket();
-        buf.write(reliableMsg);
+        this.writeReliable(buf);
         this.channel.send(buf, tag);
 
         return false;
     }
 
-    transmitClientFrame(frame: number, cmd: UserCommand) {
+    /**
+     * Write all unacknowledged reliable messages (that fit) into the packet
+     */
+    private writeReliable(buf: Buf) {
+        if (!this.reliable.hasPending) return;
+
+        const bb = new BitBuf(buf);
+        BitBuf.write(bb, kMsgHeaderSchema, { id: MsgId.Reliable });
+        this.reliable.write(bb, this.channel.nextSequence);
+        BitBuf.flush(bb);
+    }
+
+    /**
+     * Queue a message to be delivered reliably and in order
+     */
+    private sendReliable(id: MsgId, writePayload: (bb: BitBuf) => void) {
+        const bb = new BitBuf(new Buf(new Uint8Array(kMaxReliableMessageSize)));
+        BitBuf.write(bb, kMsgHeaderSchema, { id });
+        writePayload(bb);
+        BitBuf.flush(bb);
+
+        this.reliable.send(bb.buf.finish());
+    }
+
+    private receiveReliable(msg: BitBuf, latestAck: AckInfo, receiveTime: number) {
+        this.reliable.read(msg);
+
+        // Process all messages that are now in order
+        let data = this.reliable.receive();
+        while (defined(data)) {
+            this.receiveMessage(new BitBuf(new Buf(data)), latestAck, receiveTime);
+            data = this.reliable.receive();
+        }
+    }
+
+    /**
+     * @param cmd This frame's command. Spectators have no avatar to command, but still transmit frames (with no 
+     *            commands) so that the server receives acknowledgements and reliable messages.
+     */
+    transmitClientFrame(frame: number, cmd?: UserCommand) {
         // Buffer this frame's command so that we can retransmit if it is dropped
-        assert(frame === cmd.frame);
-        this.userCommands.setUserCommand(cmd);
+        if (defined(cmd)) {
+            assert(frame === cmd.frame);
+            this.userCommands.setUserCommand(cmd);
+        }
 
         // Construct the message
         const buf = this.channel.allocatePacket();
 
         // Write any reliable messages
-        const reliableMsg = this.reliable.getMessageForTransmission(frame);
-        if (reliableMsg) buf.write(reliableMsg);
+        this.writeReliable(buf);
 
         // Write the user commands
-        this.sendClientFrame(buf, frame, cmd);
+        this.sendClientFrame(buf, frame);
 
         this.channel.send(buf, frame);
         this.lastTransmittedFrame = frame;
@@ -235,40 +393,67 @@ export class NetClient extends EventDispatcher {
         this.channel.computeStats(this.stats);
     }
 
-    sendClientFrame(buf: Buf, frame: number, cmd: UserCommand) {
-        let idByte = MsgId.ClientFrame;
-        let cmdCount = 0;
-
-        const idByteOffset = Buf.writeChar(buf, idByte); // Client frame
-        Buf.writeInt(buf, frame); // Frame number
-
+    sendClientFrame(buf: Buf, frame: number) {
         // Send all unacknowledged user commands 
         // @TODO: This could be smarter, we really only need to send the user commands that the server can still use
+        const cmds: UserCommand[] = [];
         const oldestCmdFrame = Math.max(this.lastAcknowledgedFrame, frame - 5, 0);
         for (let i = frame; i >= oldestCmdFrame; i--) {
             const cmd = this.userCommands.getUserCommand(i);
             if (!defined(cmd)) break;
 
             assert(cmd.frame === i);
+            cmds.push(cmd);
+        }
+
+        const bb = new BitBuf(buf);
+        BitBuf.write(bb, kMsgHeaderSchema, { id: MsgId.ClientFrame });
+        kCommandCount.write(bb, cmds.length);
+        Quantize.int32.write(bb, frame);
+
+        // Let the server know which frames it may use as a delta baseline
+        Quantize.int32.write(bb, this.lastReconstructedFrame);
 
-            cmdCount += 1;
-            UserCommand.serialize(buf, cmd);
+        // Let the server know which frame we're looking at, so that it can compensate for our lag when we attack
+        const viewFrame = Math.round(this.clock.renderTime / this.clock.simDt);
+        kViewDelay.write(bb, clamp(frame - viewFrame, 0, 63));
+
+        for (const cmd of cmds) {
+            UserCommand.serialize(bb, cmd);
         }
 
-        // Use the upper nibble of the ID byte to store the command count
-        idByte |= cmdCount << 4;
-        buf.data[idByteOffset] = idByte;
+        BitBuf.flush(bb);
     }
 
-    receiveClientFrame(msg: Buf, receiveTime: number) {
-        const count = Buf.readByte(msg) >> 4;
-        const frame = Buf.readInt(msg);
+    receiveClientFrame(msg: BitBuf, receiveTime: number) {
+        const count = kCommandCount.read(msg, 0);
+        const frame = Quantize.int32.read(msg, 0);
+        const reconstructedFrame = Quantize.int32.read(msg, 0);
+        const viewDelay = kViewDelay.read(msg, 0);
 
+        // The commands must be read even if they are discarded, so that the next message can be parsed
+        const cmds: UserCommand[] = [];
         for (let i = 0; i < count; i++) {
             const cmd = {} as UserCommand;
             UserCommand.deserialize(cmd, msg);
-
             cmd.frame = frame - i;
+            cmds.push(cmd);
+        }
+
+        if (this.validator && !this.validator.validateFrame(frame, this.clock.simFrame)) return;
+
+        if (frame > this.lastReceivedFrame) {
+            this.viewDelay = viewDelay;
+        }
+
+        if (reconstructedFrame > this.lastReconstructedFrame) {
+            this.lastReconstructedFrame = reconstructedFrame;
+        }
+
+        // Oldest first, so that the validator sees the commands in the order that they will be executed
+        for (let i = cmds.length - 1; i >= 0; i--) {
+            const cmd = cmds[i];
+            if (this.validator && !this.validator.validateCommand(cmd, this.clock.simDt / 1000.0)) continue;
 
             // If we haven't already received this command, buffer it
             const newlySet = this.userCommands.setUserCommand(cmd);
@@ -289,36 +474,41 @@ export class NetClient extends EventDispatcher {
     transmitServerFrame(frame: number) {
         const simFrame = this.simStream.getState(frame);
 
+        // Delta compress against the newest state that the client is known to have reconstructed. A packet ack isn't
+        // enough, as the client drops (but still acks) deltas whose baseline it no longer has.
+        const baselineFrame = this.lastReconstructedFrame;
+        const baselineValid = baselineFrame >= 0 && (frame - baselineFrame) < kMaxBaselineAge && 
+            this.simStream.hasState(baselineFrame);
+        const baseline = baselineValid ? this.simStream.getState(baselineFrame) : undefined;
+
         // Let the client know how many frames ahead (or behind) it is
         const frameDiff = this.lastReceivedFrame - this.lastRequestedFrame;
 
         const buf = this.channel.allocatePacket();
 
         // Write any reliable messages
-        const reliableMsg = this.reliable.getMessageForTransmission(frame);
-        if (reliableMsg) buf.write(reliableMsg);
+        this.writeReliable(buf);
 
-        // Pass the frameDiff as a signed 4-bit in the upper nibble of the idByte
-        let idByte = MsgId.ServerFrame;
-        idByte |= (clamp(frameDiff, -8, 7) & 0b1111) << 4;
-        Buf.writeByte(buf, idByte);
+        const bb = new BitBuf(buf);
+        BitBuf.write(bb, kMsgHeaderSchema, { id: MsgId.ServerFrame });
+        kFrameDiff.write(bb, clamp(frameDiff, -8, 7));
 
         // Write the time that this server held on to the latest acknowledged packet
         // This is used to compute the difference between ping (just transit time) and RTT (full round trip time)
         const procTime = this.lastReceivedTime > 0 ? performance.now() - this.lastReceivedTime : 0;
-        const procByte = clamp(Math.round(procTime / this.clock.simDt * 255), 0, 255); // @TODO: Func for encoding fixed precision floats
-        Buf.writeByte(buf, procByte);
+        kFrameFraction.write(bb, clamp(procTime / this.clock.simDt, 0, 1));
 
         // Encode the time it took to simulate this frame, as well as the current server time. 
         // Current server time is computed as `frame * simDt + framePhase + frameCompTime`
         const currentTime = this.clock.getCurrentServerTime();
         const frameCompTime = currentTime - this.clock.serverTime;
         const framePhase = this.clock.serverTime - this.clock.simDt * frame;
-        Buf.writeByte(buf, clamp(Math.round(framePhase / this.clock.simDt * 255), 0, 255));
-        Buf.writeByte(buf, clamp(Math.round(frameCompTime / this.clock.simDt * 255), 0, 255));
+        kFrameFraction.write(bb, clamp(framePhase / this.clock.simDt, 0, 1));
+        kFrameFraction.write(bb, clamp(frameCompTime / this.clock.simDt, 0, 1));
     
         // Send the latest state
-        serializeSimState(buf, simFrame);
+        serializeSimState(bb, simFrame, baseline);
+        BitBuf.flush(bb);
 
         this.channel.send(buf, frame);
         this.lastTransmittedFrame = frame;
@@ -326,25 +516,28 @@ export class NetClient extends EventDispatcher {
         this.channel.computeStats(this.stats);
     }
 
-    receiveServerFrame(msg: Buf, latestAck: AckInfo) {
-        const idByte = Buf.readByte(msg);
-        const frameNibble = (idByte >> 4);
-        const frameDiff = (frameNibble >> 3) ? (0xFFFFFFF0 | frameNibble) : frameNibble;
+    receiveServerFrame(msg: BitBuf, latestAck: AckInfo) {
+        const frameDiff = kFrameDiff.read(msg, 0);
 
-        const procByte = Buf.readByte(msg);
-        const procTime = procByte / 255 * this.clock.simDt;
-        const ping = (latestAck && procByte > 0) ? latestAck.rttTime - procTime : undefined;
+        const procTime = kFrameFraction.read(msg, 0) * this.clock.simDt;
+        const ping = (latestAck && procTime > 0) ? latestAck.rttTime - procTime : undefined;
 
-        const serverPhase = Buf.readByte(msg) / 255 * this.clock.simDt;
-        const compTime = Buf.readByte(msg) / 255 * this.clock.simDt;
+        const serverPhase = kFrameFraction.read(msg, 0) * this.clock.simDt;
+        const compTime = kFrameFraction.read(msg, 0) * this.clock.simDt;
         
         const simState: SimState = {
             frame: -1, 
             entities: []
         }
-        deserializeSimState(msg, simState);
+        const valid = deserializeSimState(msg, simState, this.simStream);
+        if (!valid) {
+            // The baseline for this delta is no longer in our stream, so the state can't be reconstructed
+            console.warn(`NetClient: Dropping frame ${simState.frame} which references a missing baseline`);
+            return;
+        }
 
         this.lastReceivedFrame = simState.frame;
+        this.lastReconstructedFrame = Math.max(this.lastReconstructedFrame, simState.frame);
 
         // Compute server time based on the packet with the lowest RTT, which should yield the most accurate result
         if (ping && (!this.fastestAck || latestAck.rttTime < this.fastestAck.rttTime)) {
@@ -371,51 +564,206 @@ export class NetClient extends EventDispatcher {
         this.fire(NetClientEvents.ReceiveServerFrame, frameDiff, simState);
     }
     
-    transmitConnectionInfo(clientIndex: number) {
-        let bits = 0;
-        assert(clientIndex < 8);
-        bits |= clientIndex << 4;
-        bits |= MsgId.ConnectInfo & kMsgIdMask;
+    /**
+     * Ask the server for an avatar, or to spectate. The server responds with ConnectInfo. A spectator may send this 
+     * again later to request an avatar once one becomes available.
+     */
+    transmitJoinRequest(spectate: boolean) {
+        this.sendReliable(MsgId.Join, bb => Quantize.bool.write(bb, spectate));
+    }
+
+    receiveJoinRequest(msg: BitBuf) {
+        const spectate = Quantize.bool.read(msg, false);
+
+        // A rejected client may still send a request before it receives the rejection
+        if (!this.rejected) this.fire(NetClientEvents.JoinRequest, spectate);
+    }
+
+    transmitConnectionInfo(clientIndex: number, sessionToken: number) {
+        this.joined = true;
+        this.spectator = false;
+        this.clientIndex = clientIndex;
+        this.sessionToken = sessionToken;
+        this.sendReliable(MsgId.ConnectInfo, bb => {
+            Quantize.bool.write(bb, false);
+            kClientIndex.write(bb, clientIndex);
+            kSessionToken.write(bb, sessionToken);
+        });
+    }
+
+    transmitSpectatorInfo() {
+        this.joined = true;
+        this.spectator = true;
+        this.sendReliable(MsgId.ConnectInfo, bb => Quantize.bool.write(bb, true));
+    }
+
+    receiveConnectionInfo(msg: BitBuf) {
+        const wasSpectator = this.spectator;
+        this.spectator = Quantize.bool.read(msg, false);
+        if (!this.spectator) {
+            this.clientIndex = kClientIndex.read(msg, 0);
+            this.sessionToken = kSessionToken.read(msg, 0);
+        }
+        this.joined = true;
+
+        // Spectators receive a second ConnectInfo if they are later given an avatar
+        const active = this.state === NetClientState.Active || this.state === NetClientState.Background;
+        if (active && wasSpectator && !this.spectator) this.fire(NetClientEvents.Promoted);
+    }
 
-        const data = new Uint8Array([bits]); 
-        this.reliable.send(data);
+    receiveHandshake(msg: BitBuf) {
+        const handshake = BitBuf.read(msg, kHandshakeSchema, {} as Handshake);
+        const reason = checkHandshake(handshake);
+        if (defined(reason)) console.warn(`NetClient: ${this.id} is incompatible (${RejectReason[reason]})`, handshake);
+
+        this.fire(NetClientEvents.Handshake, handshake, reason);
+    }
+
+    /**
+     * Refuse a client's connection. The connection is closed once the client has received the reason, or after a timeout.
+     */
+    reject(reason: RejectReason) {
+        const kRejectTimeoutMs = 5000;
+        if (this.rejected) return;
+
+        this.sendReliable(MsgId.Reject, bb => kRejectReason.write(bb, reason));
+        this.rejected = true;
+        window.setTimeout(() => { if (this.state !== NetClientState.Disconnected) this.close(); }, kRejectTimeoutMs);
     }
 
-    receiveConnectionInfo(msg: Buf) {
-        const ignore = this.reliable.receive(msg);
-        this.clientIndex = Buf.readByte(msg) >> 4;
+    receiveReject(msg: BitBuf) {
+        const reason = kRejectReason.read(msg, 0) as RejectReason;
+        console.warn(`NetClient: Server rejected our connection (${RejectReason[reason]})`);
+
+        this.fire(NetClientEvents.Rejected, reason);
+        this.close();
     }
     
-    transmitVisibilityChange(visible: boolean) {
-        let bits = 0;
-        if (visible) bits |= 0xF0;
-        bits |= MsgId.VisChange & kMsgIdMask;
+    transmitChat(msg: ChatMessage) {
+        this.sendReliable(MsgId.Chat, bb => {
+            kChatSender.write(bb, msg.sender);
+            Quantize.bool.write(bb, defined(msg.emote));
+            if (defined(msg.emote)) kEmote.write(bb, msg.emote);
+            else BitBuf.writeString(bb, defaultValue(msg.text, ''), kMaxChatBytes);
+        });
+    }
 
-        const data = new Uint8Array([bits]); 
-        this.reliable.send(data);
+    receiveChat(msg: BitBuf) {
+        const chat: ChatMessage = { sender: kChatSender.read(msg, 0) };
+        const isEmote = Quantize.bool.read(msg, false);
+        if (isEmote) chat.emote = kEmote.read(msg, 0) as Emote;
+        else chat.text = BitBuf.readString(msg, kMaxChatBytes);
+
+        this.fire(NetClientEvents.Chat, chat);
     }
 
-    receiveVisibilityChange(msg: Buf) {
-        const ignore = this.reliable.receive(msg);
-        const visible = (Buf.readByte(msg) & ~kMsgIdMask) > 0;
+    transmitMatchState(state: MatchState) {
+        this.sendReliable(MsgId.Match, bb => serializeMatchState(bb, state));
+    }
 
-        if (!ignore) {
-            this.state = visible ? NetClientState.Active : NetClientState.Background;
-            console.log(`[Client ${this.id}] Received new visibility status: ${visible ? 'visible' : 'hidden' }`);
-        }
+    receiveMatchState(msg: BitBuf) {
+        this.fire(NetClientEvents.MatchState, deserializeMatchState(msg));
+    }
+
+    transmitVisibilityChange(visible: boolean) {
+        this.sendReliable(MsgId.VisChange, bb => Quantize.bool.write(bb, visible));
+    }
+
+    receiveVisibilityChange(msg: BitBuf) {
+        const visible = Quantize.bool.read(msg, false);
+
+        this.state = visible ? NetClientState.Active : NetClientState.Background;
+        console.log(`[Client ${this.id}] Received new visibility status: ${visible ? 'visible' : 'hidden' }`);
     }
 
     getSimState(frame: number, dst: SimState) {
         this.lastRequestedFrame = Math.ceil(frame);
-        return this.simStream.lerpState(frame, dst);
+        const maxFrames = this.maxExtrapolation / this.clock.simDt;
+
+        let valid = this.simStream.lerpState(frame, dst);
+        let extrapolatedFrom: number | undefined = undefined;
+
+        if (!valid) {
+            // No state has arrived for this frame yet, so (briefly) extrapolate from the latest state that we do have
+            extrapolatedFrom = this.simStream.extrapolateState(frame, dst, maxFrames);
+            valid = defined(extrapolatedFrom);
+
+            if (valid && this.graphPanel) {
+                this.graphPanel.setPacketStatus(this.lastRequestedFrame, NetGraphPacketStatus.Extrapolated);
+            }
+        }
+
+        if (valid) {
+            this.blendDisplayState(frame, dst, maxFrames, extrapolatedFrom);
+        }
+
+        return valid;
+    }
+
+    /**
+     * When newer states arrive while extrapolating, the extrapolated positions will be wrong. Rather than snapping, 
+     * offset each entity so that it continues from where it was displayed, then decay that offset over time.
+     */
+    private blendDisplayState(frame: number, dst: SimState, maxFrames: number, extrapolatedFrom?: number) {
+        // Decay the existing offsets
+        const dtSec = Math.max(0, frame - this.lastDisplayFrame) * this.clock.simDt / 1000.0;
+        const decay = Math.pow(0.5, dtSec / kExtrapolationBlendHalfLife);
+        for (const id in this.displayOffsets) {
+            const offset = this.displayOffsets[id];
+            vec3.scale(offset.origin, offset.origin, decay);
+            vec3.scale(offset.orientation, offset.orientation, decay);
+            if (vec3.length(offset.origin) < 0.01 && vec3.length(offset.orientation) < 0.001) {
+                delete this.displayOffsets[id];
+            }
+        }
+
+        // If we were extrapolating and newer states have arrived, compute the error that we would have displayed 
+        const baseChanged = defined(this.extrapolatedFrom) && extrapolatedFrom !== this.extrapolatedFrom;
+        if (baseChanged && this.simStream.hasState(this.extrapolatedFrom!)) {
+            this.simStream.extrapolateState(frame, scratchSimState, maxFrames, this.extrapolatedFrom);
+            for (const e of dst.entities) {
+                const old = scratchSimState.entities.find(o => o.id === e.id);
+                if (!defined(old)) continue;
+
+                let offset = this.displayOffsets[e.id];
+                if (!defined(offset)) offset = this.displayOffsets[e.id] = { origin: vec3.create(), orientation: vec3.create() };
+
+                vec3.add(offset.origin, offset.origin, vec3.subtract(old.origin, old.origin, e.origin));
+                vec3.add(offset.orientation, offset.orientation, vec3.subtract(old.orientation, old.orientation, e.orientation));
+            }
+        }
+
+        this.extrapolatedFrom = extrapolatedFrom;
+        this.lastDisplayFrame = frame;
+
+        // Apply the offsets
+        for (const e of dst.entities) {
+            const offset = this.displayOffsets[e.id];
+            if (!defined(offset)) continue;
+
+            vec3.add(e.origin, e.origin, offset.origin);
+            vec3.add(e.orientation, e.orientation, offset.orientation);
+            if (vec3.length(e.orientation) > 0) vec3.normalize(e.orientation, e.orientation);
+        }
+    }
+
+    getViewFrame(simFrame: number) {
+        return simFrame - this.viewDelay;
+    }
+
+    /**
+     * True while this client's commands can't be received, i.e. it is backgrounded or disconnected
+     */
+    isIdle() {
+        return this.state === NetClientState.Background || this.state === NetClientState.Disconnected;
     }
 
     getUserCommand(frame: number) {
         this.lastRequestedFrame = frame;
         let cmd = this.userCommands.getUserCommand(frame);
 
-        // If this client is backgrounded, we can't receive messages so always report empty commands 
-        if (this.state === NetClientState.Background) {
+        // If this client is backgrounded or disconnected, we can't receive messages so always report empty commands 
+        if (this.isIdle()) {
             return kEmptyCommand;
         }
 
@@ -438,30 +786,53 @@ export class NetClient extends EventDispatcher {
             }
         }
 
-        this.reliable.ack(ack.tag);
+        this.reliable.ack(ack.sequence);
+
+        // A rejected client can be closed as soon as it has received the rejection
+        if (this.rejected && !this.reliable.hasPending) this.close();
     }
 
     onMessage(msg: Buf, latestAck: AckInfo, receiveTime: number) {
+        if (this.validator && !this.validator.validatePacket(receiveTime)) return;
+
+        const bb = new BitBuf(msg);
         while (msg.offset < msg.data.byteLength) {
-            const idByte = Buf.peekByte(msg)
-            const msgId = idByte & kMsgIdMask;
-            let error = false;
-
-            switch(msgId) {
-                case MsgId.ServerFrame: this.receiveServerFrame(msg, latestAck); break;
-                case MsgId.ClientFrame: this.receiveClientFrame(msg, receiveTime); break;
-                case MsgId.VisChange: this.receiveVisibilityChange(msg); break;
-                case MsgId.ConnectInfo: this.receiveConnectionInfo(msg); break;
-                default: console.warn('Received unknown message. Ignoring.'); error = true; break; 
-            }
+            const valid = this.receiveMessage(bb, latestAck, receiveTime);
+
+            // Each message begins on a byte boundary
+            BitBuf.align(bb);
 
-            if (error) break;
+            if (!valid) break;
         }
 
-        if (this.state === NetClientState.Connected) {
-            assertDefined(this.clientIndex);
+        if (this.state === NetClientState.Connected && this.joined) {
+            if (!this.spectator) assertDefined(this.clientIndex);
             this.state = NetClientState.Active;
             this.fire(NetClientEvents.Activated);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Read and handle a single message
+     * @returns false if the message could not be parsed. The remainder of the packet should be discarded.
+     */
+    private receiveMessage(msg: BitBuf, latestAck: AckInfo, receiveTime: number) {
+        const header = BitBuf.read(msg, kMsgHeaderSchema, {} as MsgHeader);
+
+        switch(header.id) {
+            case MsgId.ServerFrame: this.receiveServerFrame(msg, latestAck); break;
+            case MsgId.ClientFrame: this.receiveClientFrame(msg, receiveTime); break;
+            case MsgId.VisChange: this.receiveVisibilityChange(msg); break;
+            case MsgId.ConnectInfo: this.receiveConnectionInfo(msg); break;
+            case MsgId.Reliable: this.receiveReliable(msg, latestAck, receiveTime); break;
+            case MsgId.Handshake: this.receiveHandshake(msg); break;
+            case MsgId.Reject: this.receiveReject(msg); break;
+            case MsgId.Join: this.receiveJoinRequest(msg); break;
+            case MsgId.Chat: this.receiveChat(msg); break;
+            case MsgId.Match: this.receiveMatchState(msg); break;
+            default: console.warn('Received unknown message. Ignoring.'); return false; 
+        }
+
+        return true;
+    }
+}
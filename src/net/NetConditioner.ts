@@ -0,0 +1,84 @@
+/**
+ * Simulated network conditions for one direction of a connection. All zero means the network is left untouched.
+ */
+export interface NetConditions {
+    latency: number; // Added one-way delay, in milliseconds
+    jitter: number; // Each packet is randomly delayed by up to this many additional milliseconds
+    loss: number; // Probability that any single packet is dropped [0, 1]
+    burstLoss: number; // Probability that each packet begins a burst of consecutive drops [0, 1]
+    burstLength: number; // Number of packets dropped by each burst
+    reorder: number; // Probability that a packet is held back so that it arrives after its successors [0, 1]
+    duplicate: number; // Probability that a packet is delivered twice [0, 1]
+}
+
+export function createNetConditions(): NetConditions {
+    return { latency: 0, jitter: 0, loss: 0, burstLoss: 0, burstLength: 8, reorder: 0, duplicate: 0 };
+}
+
+/**
+ * Parse conditions from a string such as "latency:100,jitter:10,loss:0.05". Unknown keys are ignored.
+ * Used for URL parameters, e.g. 'moonduel.io?netUp=latency:100,loss:0.05'
+ */
+export function parseNetConditions(str: string, conditions: NetConditions) {
+    for (const pair of str.split(',')) {
+        const [key, value] = pair.split(':');
+        const num = Number.parseFloat(value);
+        if (key in conditions && Number.isFinite(num)) conditions[key as keyof NetConditions] = num;
+        else console.warn(`NetConditioner: Ignoring invalid condition '${pair}'`);
+    }
+    return conditions;
+}
+
+const kReorderDelayMs = 32; // Held back packets arrive (at least) two frames after their successors
+
+/**
+ * Simulates poor network conditions in-process, so that they can be reproduced without root access or external
+ * tools (see NetworkShaper.sh). Each NetChannel has one for outgoing and one for incoming packets.
+ */
+export class NetConditioner {
+    conditions: NetConditions = createNetConditions();
+
+    private burstRemaining = 0;
+
+    get enabled() {
+        const c = this.conditions;
+        return c.latency > 0 || c.jitter > 0 || c.loss > 0 || c.burstLoss > 0 || c.reorder > 0 || c.duplicate > 0;
+    }
+
+    /**
+     * Deliver a packet zero, one or two times, possibly after a delay
+     * @NOTE: The data must not be modified after it is passed in, as it may be delivered later
+     */
+    process(data: ArrayBuffer, deliver: (data: ArrayBuffer) => void) {
+        const c = this.conditions;
+        if (!this.enabled) return deliver(data);
+
+        // Bursty loss drops a run of consecutive packets, as when a WiFi connection briefly stalls
+        if (this.burstRemaining > 0) { this.burstRemaining -= 1; return; }
+        if (Math.random() < c.burstLoss) { this.burstRemaining = Math.max(c.burstLength - 1, 0); return; }
+        if (Math.random() < c.loss) return;
+
+        const count = Math.random() < c.duplicate ? 2 : 1;
+        for (let i = 0; i < count; i++) {
+            let delay = c.latency + Math.random() * c.jitter;
+            if (Math.random() < c.reorder) delay += kReorderDelayMs;
+
+            if (delay > 0) setTimeout(() => deliver(data), delay);
+            else deliver(data);
+        }
+    }
+}
+
+/**
+ * @returns A short description of the configured conditions, e.g. "+100ms 10ms jitter 5% loss", or undefined if disabled
+ */
+export function describeNetConditions(conditions: NetConditions): string | undefined {
+    const parts = [];
+    if (conditions.latency > 0) parts.push(`+${conditions.latency}ms`);
+    if (conditions.jitter > 0) parts.push(`${conditions.jitter}ms jitter`);
+    if (conditions.loss > 0) parts.push(`${(conditions.loss * 100).toFixed(0)}% loss`);
+    if (conditions.burstLoss > 0) parts.push(`${(conditions.burstLoss * 100).toFixed(0)}% burst`);
+    if (conditions.reorder > 0) parts.push(`${(conditions.reorder * 100).toFixed(0)}% reorder`);
+    if (conditions.duplicate > 0) parts.push(`${(conditions.duplicate * 100).toFixed(0)}% dup`);
+    return parts.length > 0 ? parts.join(' ') : undefined;
+}
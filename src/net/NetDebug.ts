@@ -1,19 +1,30 @@
 import { ClientId } from "./SignalSocket";
 import { assertDefined, defined, defaultValue } from "../util";
+import { Violation } from "./CommandValidator";
 
 export enum NetGraphPacketStatus {
     Missing, // Not yet received
     Received, // This packet was received
     Filled, // A subsequent packet containing this data was received
     Late, // This packet arrived, but not before it was required
+    Extrapolated, // This packet had not arrived when it was required, so its state was extrapolated
 }
 
 export interface NetGraphPanel {
     dom: HTMLElement;
     setPacketStatus(frame: number, status: NetGraphPacketStatus): void;
+    setNote(note?: string): void; // Displayed in the center of the header, e.g. the simulated network conditions
     update(ping: number | undefined, serverTime: number, renderTime?: number, clientTime?: number): void;
 }
 
+/**
+ * What the server's net graph panels display for each of its clients. A ServerWorker passes this to the page.
+ */
+export interface NetGraphStats {
+    clients: { id: ClientId, ping?: number }[];
+    serverTime: number;
+}
+
 export interface NetGraphPanelSet {
     client: NetGraphPanel;
     server?: NetGraphPanel;
@@ -58,6 +69,7 @@ export class NetGraph {
         const received = 'green';
         const filled = 'yellow';
         const toolate = 'purple';
+        const extrapolated = 'darkorange';
 
         const canvas = document.createElement('canvas');
         canvas.height = kHeight;
@@ -79,6 +91,7 @@ export class NetGraph {
         const parent = this;
         const frameStatus = new Array(kTimeRangeFrames).fill(NetGraphPacketStatus.Missing);
         let lastFrame = 0;
+        let note: string | undefined;
 
         return {
             dom: canvas,
@@ -89,6 +102,10 @@ export class NetGraph {
                     frameStatus[frame % kTimeRangeFrames] = status;
             },
 
+            setNote(text?: string) {
+                note = text;
+            },
+
             update(ping: number | undefined, serverTime: number, renderTime: number, clientTime: number): void {
                 if (!parent.enabled) return;
 
@@ -121,6 +138,7 @@ export class NetGraph {
                             case NetGraphPacketStatus.Received: ctx.fillStyle = received; break;
                             case NetGraphPacketStatus.Filled: ctx.fillStyle = filled; break;
                             case NetGraphPacketStatus.Late: ctx.fillStyle = toolate; break;
+                            case NetGraphPacketStatus.Extrapolated: ctx.fillStyle = extrapolated; break;
                             default: ctx.fillStyle = 'red';
                         }
 
@@ -158,6 +176,15 @@ export class NetGraph {
                     ctx.textAlign = 'right';
                     ctx.fillText(`Ping: ${pingStr}`, kWidth - kTextX, kTextY);
                 }
+
+                // Write the note (if any) to the top center
+                ctx.fillStyle = bg;
+                ctx.fillRect(kWidth * 0.25, kTextY, kWidth * 0.25 + kTextX, kGraphY - kTextY);
+                if (defined(note)) {
+                    ctx.fillStyle = 'darkorange';
+                    ctx.textAlign = 'left';
+                    ctx.fillText(note, kWidth * 0.25, kTextY);
+                }
             }
         };
     }
@@ -193,10 +220,22 @@ export class NetClientStats {
     minMaxAve: number[][] = [];
     history: number[][] = [];
     window: number = 3000 / 16; // 3 seconds at 63hz
-    dom: HTMLElement;
 
+    // Created when the stats are first displayed, as the server may be running without a DOM (in a Worker or Node)
+    dom?: HTMLElement;
     domMinMaxAve: HTMLElement[][] = [];
 
+    // The name of the active Transport, displayed in the header
+    transport?: string;
+    domTransport?: HTMLElement;
+
+    // Values configured by the NetConditioner, displayed next to the measured values
+    simulated: (number | undefined)[] = [];
+    domSimulated: HTMLElement[] = [];
+
+    // Total count of each type of invalid data received from this client. Only recorded on the server.
+    violations: number[] = new Array(Violation._Count).fill(0);
+
     private enabled = false;
 
     constructor() {
@@ -205,7 +244,17 @@ export class NetClientStats {
             this.history[i] = [];
             this.domMinMaxAve[i] = [];
         }
+    }
+
+    setEnabled(parent: HTMLElement, enabled: boolean) {
+        this.enabled = enabled;
+        if (enabled && !this.dom) this.dom = this.createDom();
+
+        if (this.dom?.parentNode) this.dom.parentNode.removeChild(this.dom);
+        if (enabled) parent.appendChild(this.dom!);
+    }
 
+    private createDom() {
         const container = document.createElement('div');
         container.style.cssText = `
             font-family: Monaco, monospace;
@@ -215,17 +264,7 @@ export class NetClientStats {
             z-index:10000;
             pointer-events:none;
             color:white`;
-        this.dom = container;
-    }
-
-    setEnabled(parent: HTMLElement, enabled: boolean) {
-        this.enabled = enabled;
-
-        if (this.dom.parentNode) this.dom.parentNode.removeChild(this.dom);
-        if (enabled) parent.appendChild(this.dom);
-    }
 
-    initialize() {
         const tbl = document.createElement('table');
         tbl.id = 'NetStats'
         tbl.style.tableLayout = 'fixed';
@@ -240,11 +279,13 @@ export class NetClientStats {
         
         // Header row
         let tr = document.createElement('tr');
-        tr.appendChild(document.createElement('th'));
+        this.domTransport = tr.appendChild(document.createElement('th'));
+        this.domTransport.innerText = defaultValue(this.transport, '');
         tr.appendChild(document.createElement('th'));
         tr.appendChild(document.createElement('th')).appendChild(document.createTextNode('   avg   '));
         tr.appendChild(document.createElement('th')).appendChild(document.createTextNode('   min   '));
         tr.appendChild(document.createElement('th')).appendChild(document.createTextNode('   max   '));
+        tr.appendChild(document.createElement('th')).appendChild(document.createTextNode('   sim   '));
         tbl.appendChild(tr);
 
         for (const statId in kStatDesc) {
@@ -258,10 +299,12 @@ export class NetClientStats {
             this.domMinMaxAve[stat][2] = tr.appendChild(document.createElement('td'));
             this.domMinMaxAve[stat][0] = tr.appendChild(document.createElement('td'));
             this.domMinMaxAve[stat][1] = tr.appendChild(document.createElement('td'));
+            this.domSimulated[stat] = tr.appendChild(document.createElement('td'));
             tbl.appendChild(tr);
         }
 
-        this.dom.appendChild(tbl);
+        container.appendChild(tbl);
+        return container;
     }
 
     onReceiveFrame(ping: number | undefined, tickDuration: number) {
@@ -279,6 +322,22 @@ export class NetClientStats {
         this.history[NetClientStat.Dur].push(tickDuration);
     }
 
+    /**
+     * @param value The value of this stat caused by the NetConditioner, or undefined if it is not being simulated
+     */
+    setSimulated(stat: NetClientStat, value?: number) {
+        this.simulated[stat] = value;
+    }
+
+    setTransport(name: string) {
+        this.transport = name;
+        if (this.domTransport) this.domTransport.innerText = name;
+    }
+
+    onViolation(violation: Violation) {
+        this.violations[violation] += 1;
+    }
+
     onNetChannelSample(packetLoss: number, averageRTT: number, outKbps: number, inKbps: number) {
         this.history[NetClientStat.Loss].push(packetLoss);
         this.history[NetClientStat.Rtt].push(averageRTT);
@@ -319,6 +378,7 @@ export class NetClientStats {
             this.domMinMaxAve[stat][0].innerText = min;
             this.domMinMaxAve[stat][1].innerText = max;
             this.domMinMaxAve[stat][2].innerText = ave;
+            this.domSimulated[stat].innerText = defaultValue(this.simulated[stat]?.toFixed(1), '');
         }
     }
 }
\ No newline at end of file
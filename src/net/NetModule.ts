@@ -1,26 +1,69 @@
 import { SignalSocket, ClientId } from "./SignalSocket";
-import { WebUdpSocket, WebUdpSocketFactory } from "./WebUdp";
+import { WebUdpSocketFactory } from "./WebUdp";
+import { RelaySocketFactory } from "./Relay";
+import { Transport, TransportListener } from "./Transport";
 import { NetClient, NetClientEvents, NetClientState } from "./NetClient";
 import { AvatarSystemServer, AvatarSystemClient } from "../Avatar";
-import { Clock } from "../Clock";
-import { assert, defined, arrayRemove } from "../util";
+import { Clock, kMaxClientAhead, kMaxRenderDelay } from "../Clock";
+import { assert, defined, arrayRemove, defaultValue } from "../util";
 
-import { NetGraph } from './NetDebug';
-import { DebugMenu } from "../DebugMenu";
+import { NetGraph, NetGraphStats, NetClientStat } from './NetDebug';
+import { DebugMenu, IDebugMenu } from "../DebugMenu";
+import { NetConditions, createNetConditions, describeNetConditions } from "./NetConditioner";
 import { lerp, clamp } from "../MathHelpers";
 import { SimStream, SimState, World } from "../World";
+import { StatusBanner } from "../StatusBanner";
+import { Handshake, RejectReason, describeRejectReason } from "./Protocol";
+import { CameraSystem } from "../CameraSystem";
+import { InputManager } from "../Input";
+import { ChatMessage, kChatSpectator, sanitizeChatText } from "../Chat";
+import { MatchState } from "../Match";
+import { Violation, ViolationResponse } from "./CommandValidator";
+
+// How long the server keeps a disconnected client's avatar, waiting for it to reconnect
+const kReconnectGracePeriodMs = 30000;
+const kReconnectIntervalMs = 2000;
+
+// If the server hasn't sent a frame for this long, assume it is gone. WebRTC may take much longer to notice.
+const kServerTimeoutMs = 5000;
+
+// With ViolationResponse.Kick, clients that send this much invalid data within a second are disconnected
+const kMaxRecentViolations = 30;
+
+// Each client may send a burst of this many chat messages, after which it is limited to one per interval
+const kChatBurst = 5;
+const kChatIntervalMs = 2000;
+
+interface Session {
+    token: number;
+    avatarIdx: number;
+    client: NetClient;
+    graceTimeout?: number; // Set while the client is disconnected
+
+    // Restored from a previous host's state during a host migration. We don't know the tokens that the previous host 
+    // issued, so this session may be claimed by the first client that presents its avatar index.
+    migrated?: boolean;
+}
+
+interface ChatAllowance {
+    count: number; // Messages that may be sent immediately, up to kChatBurst
+    time: number; // When the count was last updated
+}
 
 interface ClientDependencies {
     clock: Clock;
     toplevel: HTMLElement;
     debugMenu: DebugMenu;
     avatar: AvatarSystemClient;
+    cameraSystem: CameraSystem;
+    input: InputManager;
     world: World;
 }
 
 interface ServerDependencies {
     avatar: AvatarSystemServer;
     clock: Clock;
+    debugMenu: DebugMenu;
     world: World;
 }
 
@@ -28,9 +71,19 @@ export class NetModuleClient {
     context: ClientDependencies;
     client: NetClient;
     graph = new NetGraph();
+    banner = new StatusBanner();
+
+    // Join as a spectator, even if an avatar is available. See the 'spectate' URL parameter.
+    spectate = false;
+    private joinRequested = false;
+
+    private serverId?: ClientId;
+    private reconnectDeadline?: number;
+    private lastServerFrameTime = 0;
 
     private clientAhead: number = 125;
     private renderDelay: number = 125;
+    private maxExtrapolation: number = 100;
 
     private transmitInterval?: number;
 
@@ -41,46 +94,159 @@ export class NetModuleClient {
     private showStats = false;
     private showGraph = false;
 
+    // Simulated network conditions, from this client's point of view. See NetConditioner.
+    netConditions = { up: createNetConditions(), down: createNetConditions() };
+
     initialize(context: ClientDependencies) {
         this.context = context;
         const clock = this.context.clock;
 
         this.client = new NetClient(context.clock);
         this.client.setSimStream(context.world.stream);
+        this.client.setMaxExtrapolation(this.maxExtrapolation);
+        this.client.setNetConditions(this.netConditions.up, this.netConditions.down);
 
         const debugMenu = this.context.debugMenu.addFolder('Net');
         debugMenu.add(this, 'clientAhead', 0, 1000, 16).onChange(() => clock.setClientDelay(-this.clientAhead));
         debugMenu.add(this, 'renderDelay', 0, 1000, 16).onChange(() => clock.setRenderDelay(this.renderDelay));
+        debugMenu.add(this, 'maxExtrapolation', 0, 500, 16).onChange(() => this.client.setMaxExtrapolation(this.maxExtrapolation));
         debugMenu.add(this, 'showStats').onChange((enabled: boolean) => this.client.stats.setEnabled(context.toplevel, enabled));
         debugMenu.add(this, 'showGraph').onChange((enabled: boolean) => this.graph.setEnabled(context.toplevel, enabled));
+        addNetConditionsMenu(debugMenu.addFolder('Simulate Upload'), this.netConditions.up);
+        addNetConditionsMenu(debugMenu.addFolder('Simulate Download'), this.netConditions.down);
     }
 
     terminate() {
+        // Prevent the Disconnected event from triggering a reconnection
+        this.serverId = undefined;
         this.client.close();
     }
 
     onConnect(serverId: ClientId) {
+        this.serverId = serverId;
+        this.beginConnection();
+
+        // Establish a WebUDP connection with the server
+        this.client.connect(serverId);
+    }
+
+    /**
+     * Connect to a server in the same page, e.g. for offline play. There is no reconnection if this is closed.
+     */
+    onConnectLocal(transport: Transport) {
+        this.beginConnection();
+        this.client.connectTransport(transport);
+    }
+
+    private beginConnection() {
         // Set the client and render times to their default values for a networked game
         this.context.clock.setClientDelay(-this.clientAhead);
         this.context.clock.setRenderDelay(this.renderDelay);
 
-        // Establish a WebUDP connection with the server
         this.client.on(NetClientEvents.ServerTimeAdjust, this.onServerTimeAdjust.bind(this));
         this.client.on(NetClientEvents.ReceiveServerFrame, this.onServerFrame.bind(this));
         this.client.on(NetClientEvents.Activated, this.onJoined.bind(this));
-        this.client.connect(serverId);
+        this.client.on(NetClientEvents.Promoted, this.onJoined.bind(this));
+        this.client.on(NetClientEvents.Disconnected, this.onDisconnected.bind(this));
+        this.client.on(NetClientEvents.Handshake, this.onHandshake.bind(this));
+        this.client.on(NetClientEvents.Rejected, this.onRejected.bind(this));
 
         this.client.on(NetClientEvents.Connected, () => {
-            if (this.graph) this.client.setNetGraphPanel(this.graph.addPanel(`Client: ${this.client.id}`));
+            if (this.graph && !this.client.graphPanel) this.client.setNetGraphPanel(this.graph.addPanel(`Client: ${this.client.id}`));
+            this.client.transmitJoinRequest(this.spectate);
         })
     }
 
     onJoined() {
+        this.reconnectDeadline = undefined;
+        this.lastServerFrameTime = performance.now();
+
+        this.context.cameraSystem.spectating = this.client.spectator;
+        if (this.client.spectator) {
+            this.banner.show(this.context.toplevel, 'Spectating. Press J to join the game.');
+            return;
+        }
+
+        this.banner.hide();
         this.context.avatar.onJoined(this.client.clientIndex);
     }
+
+    /**
+     * Ask the server for an avatar. If none are available we will remain a spectator until one is released.
+     */
+    requestJoin() {
+        if (!this.client.spectator || this.joinRequested) return;
+
+        this.joinRequested = true;
+        this.spectate = false;
+        this.client.transmitJoinRequest(false);
+        this.banner.show(this.context.toplevel, 'Spectating. You will join the game when a player leaves.');
+    }
+
+    onHandshake(handshake: Handshake, reason?: RejectReason) {
+        // We may be newer than the server, in which case it can't be trusted to reject us
+        if (defined(reason)) {
+            this.onRejected(reason);
+            this.client.close();
+        }
+    }
+
+    onRejected(reason: RejectReason) {
+        // Reconnecting won't help
+        this.serverId = undefined;
+        this.banner.show(this.context.toplevel, describeRejectReason(reason));
+    }
+
+    onDisconnected() {
+        // We can only reclaim our avatar if the server has assigned us a session
+        if (!defined(this.serverId) || !defined(this.client.sessionToken)) return;
+
+        if (!defined(this.reconnectDeadline)) {
+            console.warn('Lost connection to server. Attempting to reconnect...');
+            this.reconnectDeadline = performance.now() + kReconnectGracePeriodMs;
+        }
+
+        this.banner.show(this.context.toplevel, 'Connection lost. Reconnecting...');
+        window.setTimeout(() => this.tryReconnect(), kReconnectIntervalMs);
+    }
+
+    /**
+     * Switch to a new server, e.g. after a host migration. Our session carries over so that we keep the same avatar.
+     */
+    onHostChanged(serverId: ClientId) {
+        this.serverId = serverId;
+        this.reconnectDeadline = performance.now() + kReconnectGracePeriodMs;
+
+        // If we're still connected to the old host, closing the connection will begin reconnecting to the new one
+        // (see onDisconnected). Otherwise a reconnection attempt is already scheduled, and it will use the new serverId. 
+        const state = this.client.state;
+        if (state === NetClientState.Connected || state === NetClientState.Active) this.client.close();
+    }
+
+    private async tryReconnect() {
+        if (!defined(this.serverId) || !defined(this.reconnectDeadline)) return;
+
+        // Once the grace period has elapsed the server will have released our avatar
+        if (performance.now() > this.reconnectDeadline) {
+            console.warn('Failed to reconnect to server');
+            this.banner.show(this.context.toplevel, 'Connection lost. Refresh the page to rejoin.');
+            return;
+        }
+
+        try {
+            await this.client.reconnect(this.serverId);
+        } catch (e) {
+            // If the attempt fails after connecting, the Disconnected event will schedule the next one 
+            console.warn('Reconnection attempt failed:', e);
+            window.setTimeout(() => this.tryReconnect(), kReconnectIntervalMs);
+        }
+    }
     
     onServerFrame(frameDiff: number, simState: SimState) {
+        this.lastServerFrameTime = performance.now();
+
         this.context.world.addState(simState);
+        this.context.avatar.onServerFrame(simState);
 
         // @TODO: I think this should be in NetClient
         this.averageServerFrameDiff = lerp(frameDiff, this.averageServerFrameDiff, 0.95);
@@ -91,14 +257,13 @@ export class NetModuleClient {
         // Try to keep clientTime so that kTargetFrameDiff frames are buffered on the server
         // It takes RTT ms to detect feedback from these changes, so modify the clientAhead slow enough to avoid overcompensating
         const clientTimeDelta = (kTargetServerFrameDiff - this.averageServerFrameDiff) * this.context.clock.simDt;
-        this.clientAhead = clamp(this.clientAhead + (clientTimeDelta * kAdjustSpeed), 0, 250);
+        this.clientAhead = clamp(this.clientAhead + (clientTimeDelta * kAdjustSpeed), 0, kMaxClientAhead);
         this.context.clock.setClientDelay(-this.clientAhead);
 
         // RenderTime needs to be handled a bit differently. Since it directly corresponds to the perceived speed 
         // of world objects, even small renderDelay changes can be jarring and should happen has as infrequently as possible.
         const kTargetClientFrameDiff = 3; // Try to keep 3 frames buffered on the client for 2 frames of packet loss protection
         const kClientSlidingAverageWeight = 0.9; // Lower numbers will give recent values more weight in the average 
-        const kMaxRenderDelay = 250 // Maximum delay from serverTime (in ms)
         const kRenderDelayAdjustPeriod = 3000 // Minimum time to wait before adjusting renderTime again
         const kMinAdjustment = this.context.clock.simDt * 1; // Don't make any adjustments to renderDelay smaller than this
 
@@ -143,6 +308,9 @@ export class NetModuleClient {
 
     onVisibility(hidden: boolean) {
         if (this.client.state !== NetClientState.Active) return;
+
+        // No frames can be received while we are hidden, so don't count that time towards the server timeout
+        this.lastServerFrameTime = performance.now();
         
         this.client.transmitVisibilityChange(!hidden);
 
@@ -171,27 +339,97 @@ export class NetModuleClient {
     }
 
     update({ }) {
+        // Until the handshake completes, client frames aren't sent. Keep sending our Handshake until it is acknowledged.
+        if (this.client.state === NetClientState.Connected) this.client.transmitReliable(0);
+
+        if (this.client.state === NetClientState.Active && this.context.input.wasActive('join')) this.requestJoin();
+
+        const timeSinceServerFrame = performance.now() - this.lastServerFrameTime;
+        if (this.client.state === NetClientState.Active && timeSinceServerFrame > kServerTimeoutMs) {
+            console.warn(`No frames received from the server for ${kServerTimeoutMs / 1000} seconds`);
+            this.client.close();
+        }
+
+        this.updateSimulatedStats();
         this.client.stats.update();
         this.updateNetGraph();
     }
 
+    private updateSimulatedStats() {
+        const { up, down } = this.netConditions;
+        const stats = this.client.stats;
+        const upNote = describeNetConditions(up);
+        const downNote = describeNetConditions(down);
+
+        if (!defined(upNote) && !defined(downNote)) {
+            stats.setSimulated(NetClientStat.Ping, undefined);
+            stats.setSimulated(NetClientStat.Vrtn, undefined);
+            stats.setSimulated(NetClientStat.Loss, undefined);
+            this.client.graphPanel?.setNote(undefined);
+            return;
+        }
+
+        // Jitter is uniformly distributed between 0 and the configured value in each direction
+        const ping = up.latency + down.latency + (up.jitter + down.jitter) * 0.5;
+        const vrtn = Math.sqrt((up.jitter ** 2 + down.jitter ** 2) / 12);
+
+        // A packet is lost if either it or its ack is dropped. Bursts are approximated as independent drops.
+        const upLoss = Math.min(up.loss + up.burstLoss * up.burstLength, 1);
+        const downLoss = Math.min(down.loss + down.burstLoss * down.burstLength, 1);
+        const loss = (1 - (1 - upLoss) * (1 - downLoss)) * 100;
+
+        stats.setSimulated(NetClientStat.Ping, ping);
+        stats.setSimulated(NetClientStat.Vrtn, vrtn);
+        stats.setSimulated(NetClientStat.Loss, loss);
+        this.client.graphPanel?.setNote(`Sim: ↑${defaultValue(upNote, '-')} ↓${defaultValue(downNote, '-')}`);
+    }
+
     private updateNetGraph() {
         const clock = this.context.clock;
         this.client.graphPanel?.update(this.client.ping, clock.serverTime, clock.renderTime, clock.clientTime);
 
-        if (window.server) window.server.net.updateNetGraph();
+        // Only available when the server is running in this thread. See ServerWorker.
+        window.server?.updateNetGraph?.();
     }
 }
 
+function addNetConditionsMenu(menu: IDebugMenu, conditions: NetConditions) {
+    menu.add(conditions, 'latency', 0, 1000, 1);
+    menu.add(conditions, 'jitter', 0, 250, 1);
+    menu.add(conditions, 'loss', 0, 1, 0.01);
+    menu.add(conditions, 'burstLoss', 0, 0.1, 0.001);
+    menu.add(conditions, 'burstLength', 1, 60, 1);
+    menu.add(conditions, 'reorder', 0, 1, 0.01);
+    menu.add(conditions, 'duplicate', 0, 1, 0.01);
+}
+
+/**
+ * The transports that a server accepts by default. Clients try WebUDP first, and fall back to the relay if it fails.
+ */
+export function createDefaultListeners(signalSocket: SignalSocket): TransportListener[] {
+    return [new WebUdpSocketFactory(signalSocket), new RelaySocketFactory(signalSocket)];
+}
+
 export class NetModuleServer {
     context: ServerDependencies;
     signalSocket: SignalSocket;
     clients: Nullable<NetClient>[] = [];
+    sessions: Session[] = [];
+    joinQueue: NetClient[] = []; // Spectators waiting for an avatar, oldest first
+    chatAllowances = new Map<NetClient, ChatAllowance>();
+    matchState?: MatchState; // The latest state, sent to each client when it joins
     graph?: NetGraph;
 
+    // How to treat clients that send invalid commands or flood us with packets. See CommandValidator.
+    violationResponse = ViolationResponse.Warn;
+
     initialize(deps: ServerDependencies) {
         this.context = deps;
         this.graph = window.client?.net.graph;
+
+        const debugMenu = deps.debugMenu.addFolder('Net');
+        debugMenu.add(this, 'violationResponse', { Ignore: ViolationResponse.Ignore, Warn: ViolationResponse.Warn, 
+            Kick: ViolationResponse.Kick });
     }
 
     terminate() {
@@ -199,27 +437,183 @@ export class NetModuleServer {
         for (const client of this.clients) {
             if (client) client.close();
         }
+        for (const session of this.sessions) {
+            if (defined(session.graceTimeout)) window.clearTimeout(session.graceTimeout);
+        }
     }
 
-    async onConnect(signalSocket: SignalSocket) {
+    /**
+     * @param listeners Accept connections from the clients in the signal server's room. Defaults to WebUDP, with the
+     *                  relay as a fallback for clients that can't use WebRTC.
+     */
+    async onConnect(signalSocket: SignalSocket, listeners: TransportListener[] = createDefaultListeners(signalSocket)) {
         this.signalSocket = signalSocket;
-        const listener = new WebUdpSocketFactory(signalSocket);
-        await listener.listen(async (socket: WebUdpSocket) => {
-            const client = new NetClient(this.context.clock);
-            client.setSimStream(this.context.world.stream);
-            client.on(NetClientEvents.Connected, this.onClientConnected.bind(this, client));
-            client.on(NetClientEvents.Disconnected, this.onClientDisconnected.bind(this, client));
-            client.accept(socket);
-
-            let idx = this.clients.indexOf(null);
-            if (idx < 0) idx = this.clients.length;
-
-            const avatarIdx = this.context.avatar.addAvatar(client);
-            client.clientIndex = avatarIdx;
-            client.transmitConnectionInfo(client.clientIndex);
-            
-            this.clients[idx] = client;
-        });
+        await Promise.all(listeners.map(listener => listener.listen(this.accept.bind(this))));
+    }
+
+    /**
+     * Accept a new connection from a client, e.g. from a WebUdpSocketFactory or a LoopbackSocket
+     */
+    accept(socket: Transport) {
+        const client = new NetClient(this.context.clock);
+        client.setSimStream(this.context.world.stream);
+        client.on(NetClientEvents.Connected, this.onClientConnected.bind(this, client));
+        client.on(NetClientEvents.Disconnected, this.onClientDisconnected.bind(this, client));
+        client.on(NetClientEvents.Handshake, this.onClientHandshake.bind(this, client));
+        client.on(NetClientEvents.JoinRequest, this.onClientJoinRequest.bind(this, client, socket));
+        client.on(NetClientEvents.Chat, this.onClientChat.bind(this, client));
+        client.on(NetClientEvents.Violation, this.onClientViolation.bind(this, client));
+        client.accept(socket);
+
+        let idx = this.clients.indexOf(null);
+        if (idx < 0) idx = this.clients.length;
+
+        this.clients[idx] = client;
+    }
+
+    /**
+     * The client has told us which protocol it speaks. If we can't understand each other, turn it away.
+     */
+    onClientHandshake(client: NetClient, handshake: Handshake, reason?: RejectReason) {
+        if (defined(reason)) {
+            console.log('Client rejected:', client, RejectReason[reason]);
+            client.reject(reason);
+        }
+    }
+
+    /**
+     * The client sent invalid data, which has already been discarded or corrected
+     */
+    onClientViolation(client: NetClient, violation: Violation) {
+        if (this.violationResponse === ViolationResponse.Ignore) return;
+        console.warn(`Client ${client.id} sent invalid data (${Violation[violation]})`);
+
+        const validator = client.validator!;
+        const kick = this.violationResponse === ViolationResponse.Kick && validator.recentViolations > kMaxRecentViolations;
+        if (kick && client.state !== NetClientState.Disconnected) {
+            console.log('Client kicked:', client, client.stats.violations);
+            client.reject(RejectReason.Kicked);
+        }
+    }
+
+    /**
+     * The client wants to play (or watch). Give it an avatar if one is available, otherwise it becomes a spectator.
+     * A spectator may ask again later, in which case it waits in the queue until an avatar is released.
+     */
+    onClientJoinRequest(client: NetClient, socket: Transport, spectate: boolean) {
+        // Already playing, or already waiting
+        if (this.sessions.some(s => s.client === client) || this.joinQueue.includes(client)) return;
+
+        // Players and spectators alike need to know the state of the match
+        if (defined(this.matchState)) client.transmitMatchState(this.matchState);
+
+        // A returning client presents the token from its previous session to reclaim its avatar
+        const prev = socket.session;
+        let session = defined(prev) ? this.sessions.find(s => s.token === prev.token || 
+            (s.migrated && s.avatarIdx === prev.clientIndex)) : undefined;
+        if (defined(session)) {
+            console.log('Client reconnected:', client);
+            window.clearTimeout(session.graceTimeout);
+            session.graceTimeout = undefined;
+            session.migrated = false;
+
+            // The old connection may not have noticed that it is dead yet
+            const prevClient = session.client;
+            session.client = client;
+            if (prevClient.state !== NetClientState.Disconnected) prevClient.close();
+
+            this.context.avatar.setAvatarClient(session.avatarIdx, client);
+            client.transmitConnectionInfo(session.avatarIdx, session.token);
+            return;
+        }
+
+        if (!spectate && this.context.avatar.hasFreeAvatar()) {
+            this.addSession(client);
+            return;
+        }
+
+        if (!spectate) this.joinQueue.push(client);
+        if (!client.spectator) {
+            console.log(`Client is spectating${spectate ? '' : ' (no avatars available)'}:`, client);
+            client.transmitSpectatorInfo();
+        }
+    }
+
+    private addSession(client: NetClient) {
+        const avatarIdx = this.context.avatar.addAvatar(client);
+        const session = { token: this.generateSessionToken(), avatarIdx, client };
+        this.sessions.push(session);
+
+        client.transmitConnectionInfo(avatarIdx, session.token);
+    }
+
+    /**
+     * Give any released avatars to the spectators that have been waiting the longest
+     */
+    private promoteSpectators() {
+        while (this.joinQueue.length > 0 && this.context.avatar.hasFreeAvatar()) {
+            const client = this.joinQueue.shift()!;
+            console.log('Spectator joined:', client);
+            this.addSession(client);
+        }
+    }
+
+    /**
+     * Relay a chat message to every client, including the sender, so that everyone sees messages in the same order
+     */
+    onClientChat(client: NetClient, msg: ChatMessage) {
+        if (client.state !== NetClientState.Active && client.state !== NetClientState.Background) return;
+
+        if (!this.consumeChatAllowance(client)) {
+            console.warn('Dropping chat message from client that is sending too quickly:', client);
+            return;
+        }
+
+        const relay: ChatMessage = { sender: client.spectator ? kChatSpectator : client.clientIndex };
+        if (defined(msg.emote)) relay.emote = msg.emote;
+        else relay.text = sanitizeChatText(defaultValue(msg.text, ''));
+        if (!defined(relay.emote) && !defined(relay.text)) return;
+
+        for (const c of this.clients) {
+            if (c && c.state !== NetClientState.Disconnected) c.transmitChat(relay);
+        }
+    }
+
+    /**
+     * Send the latest state of the match to every client, e.g. when a round begins or a hit is scored
+     */
+    broadcastMatchState(state: MatchState) {
+        this.matchState = state;
+        for (const c of this.clients) {
+            if (c && c.state !== NetClientState.Disconnected) c.transmitMatchState(state);
+        }
+    }
+
+    private consumeChatAllowance(client: NetClient) {
+        const now = performance.now();
+        let allowance = this.chatAllowances.get(client);
+        if (!defined(allowance)) {
+            allowance = { count: kChatBurst, time: now };
+            this.chatAllowances.set(client, allowance);
+        }
+
+        // Regain one message per interval
+        const regained = Math.floor((now - allowance.time) / kChatIntervalMs);
+        if (regained > 0) {
+            allowance.count = Math.min(allowance.count + regained, kChatBurst);
+            allowance.time = allowance.count === kChatBurst ? now : allowance.time + regained * kChatIntervalMs;
+        }
+
+        if (allowance.count <= 0) return false;
+        allowance.count -= 1;
+        return true;
+    }
+
+    private generateSessionToken() {
+        let token: number;
+        do { token = Math.floor(Math.random() * 2 ** 31); } 
+        while (this.sessions.some(s => s.token === token));
+        return token;
     }
 
     onClientConnected(client: NetClient) {
@@ -230,20 +624,65 @@ export class NetModuleServer {
 
     onClientDisconnected(client: NetClient) {
         console.log('Client disconnected:', client);
-        this.context.avatar.removeAvatar(client);
         const idx = this.clients.indexOf(client);
-        this.clients[idx] = null;
+        if (idx >= 0) this.clients[idx] = null;
 
         if (client.graphPanel) { this.graph?.removePanel(client.graphPanel); }
+
+        const queueIdx = this.joinQueue.indexOf(client);
+        if (queueIdx >= 0) this.joinQueue.splice(queueIdx, 1);
+        this.chatAllowances.delete(client);
+
+        // Keep the avatar for a while in case the client reconnects. If it has already reconnected, there is nothing to do.
+        const session = this.sessions.find(s => s.client === client);
+        if (defined(session)) this.startGracePeriod(session);
+    }
+
+    /**
+     * After a host migration, the avatars of clients from the previous host are active but have no client. Hold each 
+     * one for the reconnect grace period so that its owner can reclaim it.
+     */
+    reserveMigratedSessions() {
+        for (const avatarIdx of this.context.avatar.getOrphanedAvatars()) {
+            // Stand in for the real client until it reconnects. A disconnected client only produces empty commands.
+            const placeholder = new NetClient(this.context.clock);
+            placeholder.state = NetClientState.Disconnected;
+            this.context.avatar.setAvatarClient(avatarIdx, placeholder);
+
+            const session: Session = { token: this.generateSessionToken(), avatarIdx, client: placeholder, migrated: true };
+            this.sessions.push(session);
+            this.startGracePeriod(session);
+        }
+    }
+
+    private startGracePeriod(session: Session) {
+        session.graceTimeout = window.setTimeout(() => {
+            console.log('Client session expired:', session.client);
+            this.context.avatar.removeAvatar(session.client);
+            arrayRemove(this.sessions, session);
+            this.promoteSpectators();
+        }, kReconnectGracePeriodMs);
     }
 
     transmitToClients(frame: number) {
         for (const client of this.clients) {
-            if (client) client.transmitServerFrame(frame);
+            if (!client) continue;
+
+            // Clients that haven't completed their handshake may not be able to parse a frame
+            if (client.state === NetClientState.Connected) client.transmitReliable(0);
+            else client.transmitServerFrame(frame);
         }
     }
 
-    private updateNetGraph() {
+    getNetGraphStats(): NetGraphStats {
+        const stats: NetGraphStats = { clients: [], serverTime: this.context.clock.getCurrentServerTime() };
+        for (const client of this.clients) {
+            if (client) stats.clients.push({ id: client.id, ping: client.ping });
+        }
+        return stats;
+    }
+
+    updateNetGraph() {
         if (this.graph) {
             for (const client of this.clients) {
                 const clientServerTime = window.client.clock.serverTime;
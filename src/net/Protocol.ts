@@ -0,0 +1,91 @@
+import { Quantize, Schema } from "../BitBuf";
+import { GIT_SHORT_REVISION, IS_DEVELOPMENT } from "../version";
+import { defaultValue } from "../util";
+
+/**
+ * Increment this whenever the format of any network message changes. Peers with different versions are rejected.
+ * @NOTE: The message header, Handshake and Reject messages must never change format, so that a mismatch can always
+ *        be detected and reported.
+ */
+export const kProtocolVersion = 6;
+
+/**
+ * Optional parts of the protocol. Peers advertise the features that they support in their Handshake.
+ */
+export enum NetFeature {
+    DeltaSnapshots = 1 << 0,
+    ReliableChannel = 1 << 1,
+    Fragmentation = 1 << 2,
+    LagCompensation = 1 << 3,
+    SessionReconnect = 1 << 4,
+}
+
+export const kSupportedFeatures = NetFeature.DeltaSnapshots | NetFeature.ReliableChannel | NetFeature.Fragmentation |
+    NetFeature.LagCompensation | NetFeature.SessionReconnect;
+
+// Features that the remote peer must support in order to communicate at all
+const kRequiredFeatures = NetFeature.DeltaSnapshots | NetFeature.ReliableChannel | NetFeature.Fragmentation;
+
+export enum RejectReason {
+    ProtocolMismatch,
+    RevisionMismatch,
+    MissingFeatures,
+    Kicked, // The client repeatedly sent invalid data. See CommandValidator.
+
+    _Count
+}
+
+export interface Handshake {
+    protocol: number;
+    revision: number; // GIT_SHORT_REVISION as an integer
+    features: number; // NetFeature flags
+}
+
+export const kHandshakeSchema: Schema<Handshake> = {
+    protocol: Quantize.int(0, 255),
+    revision: Quantize.int(0, 2 ** 32 - 1),
+    features: Quantize.int(0, 2 ** 16 - 1),
+};
+
+export const kRejectReason = Quantize.int(0, 15);
+
+export function createHandshake(): Handshake {
+    const revision = Number.parseInt(GIT_SHORT_REVISION, 16);
+    return {
+        protocol: kProtocolVersion,
+        revision: Number.isFinite(revision) ? revision : 0,
+        features: kSupportedFeatures,
+    };
+}
+
+/**
+ * @returns The reason that the remote peer cannot communicate with us, or undefined if it is compatible
+ */
+export function checkHandshake(remote: Handshake): RejectReason | undefined {
+    const local = createHandshake();
+
+    if (remote.protocol !== local.protocol) return RejectReason.ProtocolMismatch;
+    if ((remote.features & kRequiredFeatures) !== kRequiredFeatures) return RejectReason.MissingFeatures;
+
+    // Production peers are always deployed together, so a different revision means that one of them is stale. During
+    // development it is common to run different local builds that are still compatible.
+    if (remote.revision !== local.revision) {
+        if (!IS_DEVELOPMENT) return RejectReason.RevisionMismatch;
+        console.warn(`Protocol: Peer is running revision ${remote.revision.toString(16)}, we are ${GIT_SHORT_REVISION}`);
+    }
+
+    return undefined;
+}
+
+/**
+ * @returns A message suitable for displaying to the player
+ */
+export function describeRejectReason(reason: RejectReason) {
+    const kDescriptions: Record<number, string> = {
+        [RejectReason.ProtocolMismatch]: 'The game was updated. Please refresh the page.',
+        [RejectReason.RevisionMismatch]: 'The game was updated. Please refresh the page.',
+        [RejectReason.MissingFeatures]: 'The game was updated. Please refresh the page.',
+        [RejectReason.Kicked]: 'You were removed from the game for sending invalid data.',
+    };
+    return defaultValue(kDescriptions[reason], 'Unable to join the game. Please refresh the page.');
+}
@@ -0,0 +1,198 @@
+import { EventDispatcher } from "../EventDispatcher";
+import { SignalSocket, SignalSocketEvents, ClientId } from "./SignalSocket";
+import { assert, defined } from "../util";
+import { Transport, TransportEvent, TransportListener, SessionInfo } from "./Transport";
+import { kPacketHeaderSize } from "./NetChannel";
+
+enum RelayPacketType {
+    Open, // Client -> Server, to begin a connection
+    Accept, // Server -> Client
+    Data,
+    Close,
+}
+
+interface RelayPacket {
+    type: RelayPacketType,
+    session?: SessionInfo, // Open only. See WebUdpSocket.connect().
+    data?: ArrayBuffer, // Data only
+}
+
+// If the server hasn't accepted our connection within this time, give up
+const kConnectTimeoutMs = 5000;
+
+/**
+ * Relay packets come from any client that knows our ClientId, via the signal server. Drop anything malformed.
+ */
+function isValidPacket(packet: any): packet is RelayPacket {
+    if (typeof packet !== 'object' || packet === null) return false;
+    if (!Number.isInteger(packet.type) || !defined(RelayPacketType[packet.type])) return false;
+
+    if (packet.type === RelayPacketType.Open && defined(packet.session)) {
+        const session = packet.session;
+        if (typeof session !== 'object' || typeof session.token !== 'number' || typeof session.clientIndex !== 'number') return false;
+    }
+
+    if (packet.type === RelayPacketType.Data) {
+        const data = packet.data;
+        if (!(data instanceof ArrayBuffer || ArrayBuffer.isView(data))) return false;
+        if (data.byteLength < kPacketHeaderSize) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Accepts RelaySocket connections from clients, via the server's own SignalSocket
+ */
+export class RelaySocketFactory implements TransportListener {
+    private sockets: Record<ClientId, RelaySocket> = {};
+
+    constructor(private signalSocket: SignalSocket) {}
+
+    async listen(onNewConnectionCallback: (socket: RelaySocket) => void) {
+        this.signalSocket.on(SignalSocketEvents.Relay, (packet: unknown, from: ClientId) => {
+            if (!isValidPacket(packet)) return console.warn(`Relay: Dropping malformed packet from ${from}`);
+
+            const existing = this.sockets[from];
+            if (existing) return existing.receive(packet);
+            if (packet.type !== RelayPacketType.Open) return;
+
+            const socket = new RelaySocket();
+            this.sockets[from] = socket;
+            socket.once(TransportEvent.Close, () => delete this.sockets[from]);
+
+            socket.accept(this.signalSocket, from, packet.session);
+            onNewConnectionCallback(socket);
+        });
+
+        this.signalSocket.on(SignalSocketEvents.RelayClosed, (clientId: ClientId) => {
+            const socket = this.sockets[clientId];
+            if (socket) socket.close();
+        });
+    }
+}
+
+/**
+ * A Transport that tunnels packets through the signal server's WebSocket. This is the fallback for clients that
+ * can't establish a WebRTC connection with the server, e.g. because a firewall blocks UDP.
+ * @NOTE: Packets are never dropped, but a lost TCP segment delays all those that follow it. Expect a worse ping.
+ */
+export class RelaySocket extends EventDispatcher implements Transport {
+    clientId: ClientId;
+    peerId: ClientId;
+    readonly name = 'Relay';
+
+    // The session presented by the peer when it opened the connection, if it is attempting to reconnect
+    session?: SessionInfo;
+
+    private signalSocket?: SignalSocket;
+    private open = false;
+    private closed = false;
+    private connectTimeout?: number;
+
+    get isOpen() { return this.open; }
+
+    /**
+     * Ask a server to accept a relayed connection. It must be listening with a RelaySocketFactory.
+     * @param peerId the server's ClientID
+     * @param session passed along with the request, so that the server can identify a returning client
+     */
+    connect(peerId: ClientId, session?: SessionInfo): Promise<any> {
+        assert(!defined(this.signalSocket), 'RelaySocket.connect/accept() may only be called once');
+
+        this.peerId = peerId;
+
+        // Like WebUdpSocket, stay out of the rooms. Unlike it, the signal socket is needed for the life of the connection.
+        const signalSocket = new SignalSocket();
+        this.signalSocket = signalSocket;
+        this.once(TransportEvent.Close, () => signalSocket.close());
+
+        return signalSocket.connect(undefined, { lobby: true }).then(() => {
+            if (this.closed) return;
+            this.clientId = signalSocket.clientId;
+
+            signalSocket.on(SignalSocketEvents.Relay, (packet: unknown, from: ClientId) => {
+                if (from === this.peerId && isValidPacket(packet)) this.receive(packet);
+            });
+            signalSocket.on(SignalSocketEvents.RelayClosed, (clientId: ClientId) => {
+                if (clientId === this.peerId) this.close();
+            });
+
+            this.connectTimeout = window.setTimeout(() => {
+                console.error(`Relay: Failed to connect to peer ${this.peerId}. Timed out after ${kConnectTimeoutMs / 1000} seconds.`);
+                this.close();
+            }, kConnectTimeoutMs);
+
+            this.sendPacket({ type: RelayPacketType.Open, session });
+        });
+    }
+
+    /**
+     * Accept a client's request to connect. This is intended to be called by RelaySocketFactory.
+     * The socket opens asynchronously, so that the caller has a chance to subscribe to events.
+     */
+    accept(signalSocket: SignalSocket, peerId: ClientId, session?: SessionInfo) {
+        assert(!defined(this.signalSocket), 'RelaySocket.connect/accept() may only be called once');
+
+        this.signalSocket = signalSocket;
+        this.clientId = signalSocket.clientId;
+        this.peerId = peerId;
+        this.session = session;
+
+        this.sendPacket({ type: RelayPacketType.Accept });
+        setTimeout(() => { if (!this.closed) this.onOpen(); });
+    }
+
+    /**
+     * Handle a packet from the peer. On the server this is called by RelaySocketFactory.
+     */
+    receive(packet: RelayPacket) {
+        if (this.closed) return;
+
+        switch (packet.type) {
+            case RelayPacketType.Accept: if (!this.open) this.onOpen(); break;
+            case RelayPacketType.Close: this.open = false; this.close(); break;
+            case RelayPacketType.Data: {
+                if (!this.open || !defined(packet.data)) break;
+
+                // Under Node, socket.io delivers binary data as a Buffer, which may be a view of a larger pool
+                let data: ArrayBuffer | ArrayBufferView = packet.data;
+                if (ArrayBuffer.isView(data)) data = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+                this.fire(TransportEvent.Message, data);
+            } break;
+        }
+    }
+
+    send(data: ArrayBuffer | ArrayBufferView): boolean {
+        if (!this.open) return false;
+
+        // Copy the data, as the sender is free to reuse its buffer before socket.io encodes it
+        const view = ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data);
+        this.sendPacket({ type: RelayPacketType.Data, data: view.slice().buffer });
+        return true;
+    }
+
+    close() {
+        if (this.closed || !defined(this.signalSocket)) return;
+        window.clearTimeout(this.connectTimeout);
+
+        // Let the peer know, unless it was the one that closed the connection
+        if (this.open) this.sendPacket({ type: RelayPacketType.Close });
+
+        this.open = false;
+        this.closed = true;
+        this.fire(TransportEvent.Close);
+    }
+
+    private onOpen() {
+        console.debug('Relay: Connection open');
+        window.clearTimeout(this.connectTimeout);
+
+        this.open = true;
+        this.fire(TransportEvent.Open);
+    }
+
+    private sendPacket(packet: RelayPacket) {
+        this.signalSocket!.sendRelay(this.peerId, packet);
+    }
+}
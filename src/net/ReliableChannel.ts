@@ -0,0 +1,144 @@
+import { BitBuf, Quantize } from "../BitBuf";
+import { assert, defined } from "../util";
+
+interface PendingMessage {
+    sequence: number;
+    data: Uint8Array;
+}
+
+interface PacketRecord {
+    packet: number; // NetChannel sequence number of the packet
+    messages: number[]; // Sequence numbers of the reliable messages it contained
+}
+
+const kSequenceNumberDomain = 2 ** 16;
+const kWindowSize = 64; // Maximum number of messages that may be in flight at once
+const kMaxMessageSize = 255;
+const kMaxBytesPerPacket = 256; // Leave the rest of the packet for frame data
+const kPacketHistoryLength = 512; // Should match the NetChannel packet history
+
+const kMessageCount = Quantize.int(0, kWindowSize);
+const kMessageSequence = Quantize.int(0, kSequenceNumberDomain - 1);
+const kMessageLength = Quantize.int(1, kMaxMessageSize);
+
+/**
+ * Reliable, ordered delivery of messages on top of an unreliable NetChannel.
+ *
+ * Each message is assigned a sequence number and is included in every outgoing packet until one of those packets is
+ * acknowledged by the NetChannel. Many messages may be in flight at once. The receiver buffers messages that arrive
+ * out of order, and only delivers them once all preceding messages have been delivered.
+ */
+export class ReliableChannel {
+    private sendSequence = 0;
+    private unacked: PendingMessage[] = [];
+    private packetHistory: PacketRecord[] = [];
+
+    private recvSequence = 0; // The next sequence number to be delivered
+    private recvBuffer: (PendingMessage | undefined)[] = new Array(kWindowSize);
+
+    get hasPending() { return this.unacked.length > 0; }
+
+    constructor() {
+        for (let i = 0; i < kPacketHistoryLength; i++) {
+            this.packetHistory[i] = { packet: -1, messages: [] };
+        }
+    }
+
+    /**
+     * Queue a message for reliable delivery.
+     * @NOTE: The data is copied, so the caller may reuse it
+     */
+    send(data: Uint8Array) {
+        assert(data.byteLength > 0 && data.byteLength <= kMaxMessageSize, 'Reliable message is too large');
+        this.unacked.push({ sequence: this.sendSequence++, data: data.slice() });
+    }
+
+    /**
+     * Write as many unacknowledged messages as will fit, oldest first.
+     * @param packetSequence The NetChannel sequence number of the packet being written, used to detect acknowledgement
+     */
+    write(bb: BitBuf, packetSequence: number) {
+        const record = this.packetHistory[packetSequence % kPacketHistoryLength];
+        record.packet = packetSequence;
+        record.messages.length = 0;
+
+        // The receiver can only buffer messages within kWindowSize of the oldest one it is missing
+        const oldestSequence = this.unacked.length > 0 ? this.unacked[0].sequence : this.sendSequence;
+
+        let byteCount = 0;
+        let msgCount = 0;
+        for (const msg of this.unacked) {
+            if (msg.sequence - oldestSequence >= kWindowSize) break;
+            if (byteCount + msg.data.byteLength > kMaxBytesPerPacket) break;
+
+            byteCount += msg.data.byteLength;
+            msgCount += 1;
+        }
+
+        kMessageCount.write(bb, msgCount);
+        for (let i = 0; i < msgCount; i++) {
+            const msg = this.unacked[i];
+            kMessageSequence.write(bb, msg.sequence % kSequenceNumberDomain);
+            kMessageLength.write(bb, msg.data.byteLength);
+            for (let j = 0; j < msg.data.byteLength; j++) {
+                BitBuf.writeBits(bb, msg.data[j], 8);
+            }
+
+            record.messages.push(msg.sequence);
+        }
+    }
+
+    /**
+     * Called when the NetChannel receives an acknowledgement for a packet. Any messages that it contained are complete.
+     */
+    ack(packetSequence: number) {
+        const record = this.packetHistory[packetSequence % kPacketHistoryLength];
+        if (record.packet !== packetSequence) return;
+
+        for (const sequence of record.messages) {
+            const idx = this.unacked.findIndex(msg => msg.sequence === sequence);
+            if (idx >= 0) this.unacked.splice(idx, 1);
+        }
+
+        record.packet = -1;
+        record.messages.length = 0;
+    }
+
+    /**
+     * Read the messages written by write(). Duplicates are discarded, and new messages are buffered until receive().
+     */
+    read(bb: BitBuf) {
+        const count = kMessageCount.read(bb, 0);
+        for (let i = 0; i < count; i++) {
+            const wireSequence = kMessageSequence.read(bb, 0);
+            const length = kMessageLength.read(bb, 0);
+            const data = new Uint8Array(length);
+            for (let j = 0; j < length; j++) {
+                data[j] = BitBuf.readBits(bb, 8);
+            }
+
+            // Reconstruct the full sequence number. Messages older than recvSequence wrap to large deltas.
+            const delta = (wireSequence - (this.recvSequence % kSequenceNumberDomain) + kSequenceNumberDomain) % kSequenceNumberDomain;
+            if (delta >= kWindowSize) continue; // Already delivered
+
+            const sequence = this.recvSequence + delta;
+            const slot = this.recvBuffer[sequence % kWindowSize];
+            if (!defined(slot) || slot.sequence !== sequence) {
+                this.recvBuffer[sequence % kWindowSize] = { sequence, data };
+            }
+        }
+    }
+
+    /**
+     * @returns The next message in sequence order, or undefined if it has not yet been received
+     */
+    receive(): Uint8Array | undefined {
+        const idx = this.recvSequence % kWindowSize;
+        const msg = this.recvBuffer[idx];
+        if (!defined(msg) || msg.sequence !== this.recvSequence) return undefined;
+
+        this.recvBuffer[idx] = undefined;
+        this.recvSequence += 1;
+        return msg.data;
+    }
+}
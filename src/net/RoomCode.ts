@@ -0,0 +1,25 @@
+// Ambiguous characters (0/O, 1/I/L, etc) are omitted so that codes can be read aloud or typed from a screenshot
+const kRoomCodeAlphabet = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const kRoomCodeLength = 5;
+const kMaxRoomNameLength = 32;
+
+/**
+ * Generate a short, random room name which is easy to share, e.g. "K7QXM". With 31^5 possible codes, two private
+ * rooms are very unlikely to collide.
+ */
+export function generateRoomCode() {
+    let code = '';
+    for (let i = 0; i < kRoomCodeLength; i++) {
+        code += kRoomCodeAlphabet[Math.floor(Math.random() * kRoomCodeAlphabet.length)];
+    }
+    return code;
+}
+
+/**
+ * Clean up a room name entered by a player, e.g. " k7qxm" => "K7QXM".
+ * @returns undefined if the name contains no valid characters
+ */
+export function normalizeRoomName(name: string) {
+    const normalized = name.trim().toUpperCase().replace(/[^A-Z0-9_-]/g, '').slice(0, kMaxRoomNameLength);
+    return normalized.length > 0 ? normalized : undefined;
+}
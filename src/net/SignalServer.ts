@@ -0,0 +1,198 @@
+/// <reference types="node" />
+import SocketIO from 'socket.io';
+import { generateRoomCode, normalizeRoomName } from './RoomCode';
+import { ClientId } from './SignalSocket';
+
+// @NOTE: This should match kAvatarCount. It is not imported so that the signal server doesn't depend on the game.
+const kMaxQuickPlayClients = 8;
+
+// The default ICE servers, if none are configured. Only STUN, so peers behind symmetric NATs may fail to connect.
+export const kDefaultIceServers: RTCIceServer[] = [
+    { urls: 'stun:stun.l.google.com:19302' },
+];
+
+export interface SignalServerOptions {
+    port: number;
+    iceServers?: RTCIceServer[];
+}
+
+interface RoutedMessage {
+    to: ClientId;
+    data: any;
+}
+
+// Handlers check their arguments with these, so that a malformed message from one client can't bring down every room
+function isObject(msg: any): msg is Record<string, any> {
+    return typeof msg === 'object' && msg !== null;
+}
+
+function isRoutedMessage(msg: any): msg is RoutedMessage {
+    return isObject(msg) && typeof msg.to === 'string';
+}
+
+function isCallback(ack: any): ack is Function {
+    return typeof ack === 'function';
+}
+
+interface Room {
+    name: string;
+    server: ClientId; // The first client to join, until it leaves and the remaining clients elect another
+    clients: Set<ClientId>;
+    candidates: Set<ClientId>; // Clients that have stood for election since the last server left. See HostMigration.
+    isPrivate: boolean;
+    botTakeover: boolean;
+}
+
+/**
+ * A stand-in for MoonBeacon, the signal server that the game uses to find rooms and to negotiate WebRTC connections.
+ * It implements the same protocol (see SignalSocket for the client's side), so that development and integration tests
+ * can run without the real server. All state is in memory. It can also relay game packets between clients that are
+ * unable to connect via WebRTC.
+ *
+ * The connection's query parameters choose a room:
+ *  - room:    Join the room with this name, creating it if necessary. If omitted, a room is created with a random code.
+ *  - quick:   If no room is named, join the fullest public room that has space instead (quick play).
+ *  - private: If the room is created, hide it from listRooms.
+ *  - lobby:   Don't join any room. The socket may still list rooms and send messages to other clients.
+ *  - bots=0:  If the room is created, disable bot takeover. See AvatarSystemServer.botTakeover.
+ */
+export class SignalServer {
+    private io: SocketIO.Server;
+    private iceServers: RTCIceServer[];
+    private rooms = new Map<string, Room>();
+
+    constructor(options: SignalServerOptions) {
+        this.iceServers = options.iceServers || kDefaultIceServers;
+        this.io = SocketIO(options.port);
+        this.io.on('connection', this.onConnection.bind(this));
+    }
+
+    close() {
+        this.io.close();
+    }
+
+    private onConnection(socket: SocketIO.Socket) {
+        const query = socket.handshake.query;
+
+        // Messages are routed by ClientId, regardless of room, so that lobby sockets can signal too
+        socket.on('message', (msg: unknown) => {
+            if (!isRoutedMessage(msg)) return;
+            this.io.to(msg.to).emit('message', { from: socket.id, to: msg.to, data: msg.data });
+        });
+
+        // Packets for clients that could not establish a WebRTC connection. See RelaySocket. When this socket disconnects,
+        // the clients that it was relaying to are told so that they can close their end.
+        const relayPeers = new Set<ClientId>();
+        socket.on('relay', (msg: unknown) => {
+            if (!isRoutedMessage(msg)) return;
+            relayPeers.add(msg.to);
+            this.io.to(msg.to).emit('relay', { from: socket.id, to: msg.to, data: msg.data });
+        });
+        socket.on('disconnect', () => {
+            for (const peer of relayPeers) this.io.to(peer).emit('relayClosed', socket.id);
+        });
+
+        socket.on('iceServers', (ack: unknown) => {
+            if (isCallback(ack)) ack(this.iceServers);
+        });
+        socket.on('listRooms', (ack: unknown) => {
+            if (!isCallback(ack)) return;
+            const rooms = Array.from(this.rooms.values()).filter(room => !room.isPrivate);
+            ack(rooms.map(room => ({ name: room.name, clientCount: room.clients.size })));
+        });
+
+        if (query.lobby) return;
+
+        const room = this.findRoom(query);
+        this.join(socket, room);
+
+        socket.on('messageRoom', (msg: unknown) => {
+            if (!isObject(msg)) return;
+            if (isObject(msg.data) && msg.data.hostCandidate) room.candidates.add(socket.id);
+            socket.to(room.name).emit('messageRoom', { from: socket.id, data: msg.data });
+        });
+
+        // Only the current server may hand the room to another member. During host migration, a candidate may claim
+        // the room for itself if it has no server yet, or if it was also claimed by a candidate with a higher ClientId.
+        socket.on('setServer', (serverId: unknown) => {
+            if (typeof serverId !== 'string' || !room.clients.has(serverId)) return;
+
+            const isServer = socket.id === room.server;
+            const isCandidate = serverId === socket.id && room.candidates.has(socket.id);
+            const isVacant = !room.server || (room.candidates.has(room.server) && serverId < room.server);
+            if (isServer || (isCandidate && isVacant)) room.server = serverId;
+        });
+
+        socket.on('disconnect', (reason: string) => this.leave(socket, room, reason));
+    }
+
+    private findRoom(query: Record<string, string>) {
+        const name = query.room ? normalizeRoomName(query.room) : undefined;
+
+        // Quick play fills the fullest public room that has space, so that players end up together
+        if (!name && query.quick && !query.private) {
+            let best: Room | undefined;
+            for (const room of this.rooms.values()) {
+                if (room.isPrivate || room.clients.size >= kMaxQuickPlayClients) continue;
+                if (!best || room.clients.size > best.clients.size) best = room;
+            }
+            if (best) return best;
+        }
+
+        const existing = name ? this.rooms.get(name) : undefined;
+        if (existing) return existing;
+
+        // Codes are random, so avoid the (unlikely) collision with an existing room
+        let roomName = name;
+        while (!roomName || this.rooms.has(roomName)) roomName = generateRoomCode();
+
+        const room: Room = {
+            name: roomName,
+            server: '',
+            clients: new Set(),
+            candidates: new Set(),
+            isPrivate: !!query.private,
+            botTakeover: query.bots !== '0',
+        };
+
+        this.rooms.set(room.name, room);
+        console.log(`SignalServer: Created ${room.isPrivate ? 'private ' : ''}room ${room.name}`);
+        return room;
+    }
+
+    private join(socket: SocketIO.Socket, room: Room) {
+        if (room.clients.size === 0) room.server = socket.id;
+
+        const clients: Record<ClientId, { id: ClientId, room: string }> = {};
+        for (const id of room.clients) clients[id] = { id, room: room.name };
+
+        room.clients.add(socket.id);
+        socket.join(room.name);
+
+        socket.emit('roomJoined', {
+            name: room.name,
+            server: room.server,
+            clients,
+            isPrivate: room.isPrivate,
+            botTakeover: room.botTakeover,
+        });
+        socket.to(room.name).emit('clientJoined', { id: socket.id, room: room.name });
+    }
+
+    private leave(socket: SocketIO.Socket, room: Room, reason: string) {
+        if (!room.clients.delete(socket.id)) return;
+        this.io.to(room.name).emit('clientLeaving', socket.id, reason);
+
+        // The remaining clients will elect a new server. See HostMigration.
+        room.candidates.delete(socket.id);
+        if (room.server === socket.id) {
+            room.server = '';
+            room.candidates.clear();
+        }
+
+        if (room.clients.size === 0 && this.rooms.get(room.name) === room) {
+            this.rooms.delete(room.name);
+            console.log(`SignalServer: Closed room ${room.name}`);
+        }
+    }
+}
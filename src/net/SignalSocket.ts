@@ -1,14 +1,21 @@
 import * as socketio from 'socket.io-client';
 import { EventDispatcher } from '../EventDispatcher';
 import { assert } from '../util';
+import { IS_DEVELOPMENT } from '../version';
 
 export type ClientId = string;
 
+// The MoonBeacon instance used by the game, unless overridden with window.config.kSignalServerAddress
+export const kDefaultSignalServerAddress = IS_DEVELOPMENT ? 'localhost:8888' : '3.23.86.226:8888';
+
 export enum SignalSocketEvents {
     JoinedRoom = 'joined',
     ClientJoined = 'clientjoin',
+    ServerLeft = 'serverleft',
     Message = 'message',
     RoomMessage = 'roomMessage',
+    Relay = 'relay', // A packet relayed from a RelaySocket. Fired with the data and the sender's ClientId.
+    RelayClosed = 'relayClosed', // A client that had sent us relayed packets has disconnected from the signal server
 }
 
 interface ClientDetails {
@@ -20,6 +27,27 @@ interface RoomDetails {
     name: string,
     server: ClientId,
     clients: Record<ClientId, ClientDetails>;
+    isPrivate?: boolean,
+    botTakeover?: boolean,
+}
+
+/**
+ * An entry in the lobby's list of public rooms. See SignalSocket.listRooms().
+ */
+export interface RoomSummary {
+    name: string,
+    clientCount: number,
+}
+
+/**
+ * Which room to join when connecting to the signal server
+ */
+export interface RoomRequest {
+    name?: string, // Join the room with this name, creating it if necessary. If undefined, a new room is created.
+    quickPlay?: boolean, // If no name is given, join the fullest public room that has space, or create one if none do
+    isPrivate?: boolean, // If the room is created, hide it from the lobby list. It can only be joined by name.
+    lobby?: boolean, // Don't join any room, e.g. to list rooms or to signal a specific peer
+    botTakeover?: boolean, // If the room is created, whether bots control the avatars of absent players. Default true.
 }
 
 interface ClientMessage {
@@ -43,18 +71,26 @@ export class SignalSocket extends EventDispatcher {
     private socket: SocketIOClient.Socket;
 
     /**
-     * Establish a connection to the server, and join a specific room
+     * Establish a connection to the server, and join a room
      * @param address URL of the server
-     * @param roomName Room to join
+     * @param request The room to join. By default the server chooses one.
      */
-    connect(address: string = window.config.kSignalServerAddress) {
+    connect(address: string = window.config.kSignalServerAddress, request: RoomRequest = {}) {
         assert(!this.connected);
         return new Promise(resolve => {
-            this.socket = socketio.connect(address);
+            // The signal server reads the room request from the connection's query parameters
+            const query: Record<string, string> = {};
+            if (request.name) query.room = request.name;
+            if (request.quickPlay) query.quick = '1';
+            if (request.isPrivate) query.private = '1';
+            if (request.lobby) query.lobby = '1';
+            if (request.botTakeover === false) query.bots = '0';
+            this.socket = socketio.connect(address, { query });
 
             this.socket.on('connect', () => {
                 this.connected = true;
                 console.debug('SignalSocket: Connected to MoonBeacon with ID:', this.socket.id);
+                if (request.lobby) resolve();
             });
 
             this.socket.on('roomJoined', (details: RoomDetails) => {
@@ -72,6 +108,7 @@ export class SignalSocket extends EventDispatcher {
             this.socket.on('clientLeaving', (clientId: ClientId, reason: string) => {
                 console.debug('SignalSocket: Client left:', clientId);
                 delete this.room.clients[clientId];
+                if (clientId === this.room.server) this.fire(SignalSocketEvents.ServerLeft, clientId);
             });
 
             this.socket.on('message', (msg: ClientMessage) => {
@@ -82,6 +119,15 @@ export class SignalSocket extends EventDispatcher {
             this.socket.on('messageRoom', (msg: RoomMessage) => {
                 this.fire(SignalSocketEvents.RoomMessage, msg.data, msg.from);
             });
+
+            // Relayed packets are too frequent to log
+            this.socket.on('relay', (msg: ClientMessage) => {
+                this.fire(SignalSocketEvents.Relay, msg.data, msg.from);
+            });
+
+            this.socket.on('relayClosed', (clientId: ClientId) => {
+                this.fire(SignalSocketEvents.RelayClosed, clientId);
+            });
         });
     }
 
@@ -101,6 +147,22 @@ export class SignalSocket extends EventDispatcher {
         this.socket.emit('message', msg);
     }
 
+    /**
+     * Send a packet to a specific client, via the signal server instead of a WebRTC connection. See RelaySocket.
+     * @NOTE: The signal server must support relaying. Our SignalServer does.
+     * @param to Id of the client to target
+     * @param data The packet. It may contain ArrayBuffers, which are sent as binary.
+     */
+    sendRelay(to: ClientId, data: Object) {
+        const msg: ClientMessage = {
+            from: this.clientId,
+            to,
+            data,
+        };
+
+        this.socket.emit('relay', msg);
+    }
+
     /**
      * Send a message to every client in the room
      * @param data The message payload
@@ -126,10 +188,48 @@ export class SignalSocket extends EventDispatcher {
         });
     }
 
+    /**
+     * Get the public rooms that can be joined, and how many clients are in each. Private rooms are not listed.
+     */
+    listRooms(): Promise<RoomSummary[]> {
+        return new Promise(resolve => {
+            this.socket.emit('listRooms', (rooms: RoomSummary[]) => resolve(rooms));
+        });
+    }
+
+    /**
+     * Designate a new server for the room, after the previous server has left. See HostMigration.
+     * @NOTE: The signal server only accepts this from the current server, or from a candidate that is claiming the room
+     *        for itself during host migration. Otherwise, only our own view of the room is changed.
+     * @param serverId The ClientID of the new server. This may be our own ClientID.
+     */
+    setServer(serverId: ClientId) {
+        this.room.server = serverId;
+        this.socket.emit('setServer', serverId);
+    }
+
     close() {
         this.socket.close();
     }
 
+    /**
+     * Get the name of the room that we joined. Other players can join the same room by name.
+     */
+    get roomName() {
+        return this.room.name;
+    }
+
+    get isPrivate() {
+        return !!this.room.isPrivate;
+    }
+
+    /**
+     * A room setting, which every host of the room should respect. See AvatarSystemServer.botTakeover.
+     */
+    get botTakeover() {
+        return this.room.botTakeover !== false;
+    }
+
     /**
      * Get the ClientIDs of all other clients in the room.
      */
@@ -0,0 +1,51 @@
+import { EventDispatcher, Callback } from "../EventDispatcher";
+import { ClientId } from "./SignalSocket";
+
+export enum TransportEvent {
+    Open = "open",
+    Close = "close",
+    Message = "message", // Fired with the packet's ArrayBuffer
+};
+
+/**
+ * Sent by a client that is returning to a game, so that it can reclaim its previous avatar
+ */
+export interface SessionInfo {
+    token: number, // Issued by the server in ConnectInfo
+    clientIndex: number,
+}
+
+/**
+ * An unreliable, unordered, packet-based connection to a single peer. NetChannel builds acknowledgement on top of this.
+ * @see WebUdpSocket for connections between browsers, RelaySocket for when WebRTC is unavailable, and LoopbackSocket for
+ *      connections within the same process
+ */
+export interface Transport {
+    clientId: ClientId;
+    peerId: ClientId;
+
+    // Identifies the kind of transport to the player, e.g. in the net stats
+    readonly name: string;
+
+    // The session presented by the peer when it connected, if it is attempting to reconnect
+    session?: SessionInfo;
+
+    readonly isOpen: boolean;
+
+    /**
+     * @returns false if the transport is not open, and the packet was not sent
+     */
+    send(data: ArrayBuffer | ArrayBufferView): boolean;
+    close(): void;
+
+    on(name: TransportEvent, callback: Callback): EventDispatcher;
+    once(name: TransportEvent, callback: Callback): EventDispatcher;
+}
+
+/**
+ * Accepts incoming connections, e.g. on the server
+ * @see WebUdpSocketFactory, RelaySocketFactory
+ */
+export interface TransportListener {
+    listen(onNewConnectionCallback: (transport: Transport) => void): Promise<void>;
+}
@@ -2,25 +2,33 @@ import { EventDispatcher } from "../EventDispatcher";
 import { SignalSocket, SignalSocketEvents, ClientId } from "./SignalSocket";
 import { assert, assertDefined, defined } from "../util";
 import { IS_DEVELOPMENT } from "../version";
-
-export enum WebUdpEvent {
-    Open = "open",
-    Close = "close",
-    Message = "message",
-};
+import { Transport, TransportEvent, TransportListener, SessionInfo } from "./Transport";
 
 interface ClientOffer {
     offer: RTCSessionDescriptionInit,
+    session?: SessionInfo,
 }
 
 interface ClientAnswer {
     answer: RTCSessionDescriptionInit,
 }
 
-export class WebUdpSocketFactory extends EventDispatcher {
+interface ClientCandidate {
+    candidate: RTCIceCandidateInit,
+}
+
+type SignalMessage = Partial<ClientOffer & ClientAnswer & ClientCandidate>;
+
+// If no ICE candidate pair has succeeded within this time, give up
+const kConnectTimeoutMs = 15000;
+
+export class WebUdpSocketFactory extends EventDispatcher implements TransportListener {
     signalSocket: SignalSocket;
     iceServers: RTCConfiguration;
 
+    // Sockets which are still being negotiated, and may receive ICE candidates from their peer
+    private pending: Record<ClientId, WebUdpSocket> = {};
+
     constructor(signalSocket: SignalSocket) {
         super();
         this.signalSocket = signalSocket;
@@ -31,63 +39,90 @@ export class WebUdpSocketFactory extends EventDispatcher {
         this.iceServers = await this.signalSocket.requestIceServers();
     }
 
-    async onMessage(callback: (socket: WebUdpSocket) => void, msg: ClientOffer, from: ClientId) {
+    async onMessage(callback: (socket: WebUdpSocket) => void, msg: SignalMessage, from: ClientId) {
         console.debug('WebUDP: Received message', msg);
-        assertDefined(msg.offer, 'Expected an offer');
 
-        // Spawn a new WebUdpSocket for each offer received
-        const socket = new WebUdpSocket();
-        socket.accept(this.signalSocket, msg, from);
-        callback(socket);
+        if (msg.offer) {
+            // Spawn a new WebUdpSocket for each offer received
+            const socket = new WebUdpSocket();
+            this.pending[from] = socket;
+            socket.once(TransportEvent.Open, () => delete this.pending[from]);
+            socket.once(TransportEvent.Close, () => delete this.pending[from]);
+
+            socket.accept(this.signalSocket, { offer: msg.offer, session: msg.session }, from).catch(err => {
+                console.error(`WebUDP: Failed to accept offer from peer ${from}`, err);
+                socket.close();
+            });
+            callback(socket);
+        } else if (msg.candidate) {
+            // Route trickled ICE candidates to the socket negotiating with that peer
+            const socket = this.pending[from];
+            if (socket) socket.addIceCandidate(msg.candidate);
+            else console.warn(`WebUDP: Received ICE candidate from unknown peer ${from}`);
+        } else {
+            console.warn('WebUDP: Expected an offer or ICE candidate');
+        }
     }
 }
 
-export class WebUdpSocket extends EventDispatcher {
+export class WebUdpSocket extends EventDispatcher implements Transport {
     clientId: ClientId;
     peerId: ClientId;
+    readonly name = 'WebUDP';
 
     peer: Nullable<RTCPeerConnection>;
     channel: Nullable<RTCDataChannel>;
 
+    // The session presented by the peer in its offer, if it is attempting to reconnect
+    session?: SessionInfo;
+
+    // Remote ICE candidates that arrived before the remote description was set
+    private pendingCandidates: RTCIceCandidateInit[] = [];
+    private connectTimeout?: number;
+    private closed = false;
+
     get isOpen() {
-        return this.channel && this.channel.readyState === 'open';
+        return !!this.channel && this.channel.readyState === 'open';
     }
 
     /**
      * Attempt to initiate a WebRTC connection with a peer via the signal server.
      * @NOTE: The peer must already be listening for offers. See WebUdpSocketFactory.
      * @param peerId the peer's ClientID
+     * @param session passed along with the offer, so that the peer can identify a returning client
      */
-    connect(peerId: string): Promise<any> {
+    connect(peerId: string, session?: SessionInfo): Promise<any> {
         assert(!defined(this.peer), 'WebUdpSocket.connect/listen() may only be called once');
 
         this.peerId = peerId;
 
-        // Connect to the signal server 
+        // Connect to the signal server. We only need to talk to the peer, so stay out of the rooms.
         const signalSocket = new SignalSocket();
-        const connectedToSignalServer = signalSocket.connect().then(() => {
+        const connectedToSignalServer = signalSocket.connect(undefined, { lobby: true }).then(() => {
             this.clientId = signalSocket.clientId
         });
 
+        // The signal server is no longer needed once we're connected (or have given up)
+        this.once(TransportEvent.Open, () => signalSocket.close());
+        this.once(TransportEvent.Close, () => signalSocket.close());
+
         // Begin the WebRTC handshake
         connectedToSignalServer.then(async () => {
             // Don't ping any STUN/TURN servers during development
             const iceServers = IS_DEVELOPMENT ? {} : await signalSocket.requestIceServers();
     
-            this.peer = this.createPeer(iceServers);
-            
-            // Watch for any important changes on the WebRTC connection
-            this.peer.onconnectionstatechange = () => {
-                switch(this.peer!.connectionState) {
-                    case "connected": break;
-                    case "disconnected": break;
-                    case "failed": this.close(); break;
-                    case "closed": this.close(); break;
-                  }
-            };
-    
-            // Start pinging STUN/TURN servers to generate ICE candidates
-            const iceCandidatesPromise = this.getIceCandidates();
+            this.peer = this.createPeer(iceServers, signalSocket);
+
+            signalSocket.on(SignalSocketEvents.Message, (msg: SignalMessage, from: ClientId) => {
+                if (from !== this.peerId) return;
+
+                if (msg.answer) {
+                    console.debug('WebUDP: Received answer', msg.answer);
+                    this.setRemoteDescription(msg.answer);
+                } else if (msg.candidate) {
+                    this.addIceCandidate(msg.candidate);
+                }
+            });
     
             // But if we're the "local", we create the data channel
             const channel = this.peer.createDataChannel('webudp', {
@@ -96,27 +131,15 @@ export class WebUdpSocket extends EventDispatcher {
             });
             this.setDataChannel(channel);
     
-            // And initiate the connection by creating and sending an offer
+            // And initiate the connection by creating and sending an offer. ICE candidates will follow as they're found.
             const rtcOffer = await this.peer.createOffer();
             await this.peer.setLocalDescription(rtcOffer);
     
-            // Wait for all ICE candidates to be created
-            await iceCandidatesPromise;
-    
-            // Send the SDP and ICE candidates in one message
-            const offer: ClientOffer = { offer: assertDefined(this.peer.localDescription) };
+            const offer: ClientOffer = { offer: assertDefined(this.peer.localDescription), session };
             signalSocket.send(this.peerId, offer);
-    
-            signalSocket.once(SignalSocketEvents.Message, (msg: ClientAnswer, from: ClientId) => {
-                const answer = assertDefined(msg.answer, 'Expected "answer" message from remote peer');
-                console.debug('WebUDP: Received answer', msg.answer);
-    
-                // Accept the answer
-                this.peer!.setRemoteDescription(msg.answer);
-    
-                // @TODO: Also close after timeout, or on error
-                signalSocket.close();
-            });
+        }).catch(err => {
+            console.error(`WebUDP: Failed to send offer to peer ${this.peerId}`, err);
+            this.close();
         });
 
         return connectedToSignalServer;
@@ -131,31 +154,42 @@ export class WebUdpSocket extends EventDispatcher {
 
         this.peerId = peerId;
         this.clientId = signalSocket.clientId;
+        this.session = offer.session;
 
         // @TODO: This only needs to happen once on the server
         const iceServers = IS_DEVELOPMENT ? {} : await signalSocket.requestIceServers();
 
-        this.peer = this.createPeer(iceServers);
+        this.peer = this.createPeer(iceServers, signalSocket);
 
-        // Start pinging STUN/TURN servers to generate ICE candidates
-        const iceCandidatesPromise = this.getIceCandidates();
+        // Once the remote accepts the answer, WebRTC will construct the data channel and we'll be good to go
+        this.peer.ondatachannel = evt => {
+            this.setDataChannel(evt.channel);
+        }
 
-        // Construct an answer and send it back to our peer via the signal server
-        await this.peer.setRemoteDescription(offer.offer);
+        // Construct an answer and send it back to our peer via the signal server. ICE candidates will follow.
+        await this.setRemoteDescription(offer.offer);
         const answer = await this.peer.createAnswer();
-        this.peer.setLocalDescription(answer);
-
-        // Wait for all of our ICE candidates to generate, then send them back with the answer
-        await iceCandidatesPromise;
+        await this.peer.setLocalDescription(answer);
         signalSocket.send(this.peerId, { answer: this.peer.localDescription });
+    }
 
-        // Once the remote accepts the answer, WebRTC will construct the data channel and we'll be good to go
-        this.peer.ondatachannel = evt => {
-            this.setDataChannel(evt.channel);
+    /**
+     * Add an ICE candidate received from the peer via the signal server
+     */
+    addIceCandidate(candidate: RTCIceCandidateInit) {
+        // Candidates can't be added until the remote description has been set
+        if (!this.peer || !this.peer.remoteDescription) {
+            this.pendingCandidates.push(candidate);
+            return;
         }
+
+        console.debug('WebUDP: Adding remote ICE candidate', candidate);
+        this.peer.addIceCandidate(candidate).catch(err => {
+            console.warn('WebUDP: Failed to add remote ICE candidate', err);
+        });
     }
 
-    send(data: string | Blob | ArrayBuffer | ArrayBufferView): boolean {
+    send(data: ArrayBuffer | ArrayBufferView): boolean {
         if (this.channel && this.isOpen) {
             this.channel.send(data as any);
             return true;
@@ -165,29 +199,87 @@ export class WebUdpSocket extends EventDispatcher {
     };
 
     close() {
-        if (defined(this.peer)) {
-            this.fire(WebUdpEvent.Close);
+        if (this.closed) return;
+        this.closed = true;
 
-            // Close the RTCDataChannel
-            if (this.channel) this.channel.close();
+        window.clearTimeout(this.connectTimeout);
 
-            // Close the RTCPeerConnection
-            if (this.peer) this.peer.close();
+        // Fire even if the handshake failed before the peer was created, so that listeners stop waiting for it
+        this.fire(TransportEvent.Close);
 
-            // ... and set clear references to avoid reuse
-            this.peer = null;
-            this.channel = null;
-        }
+        // Close the RTCDataChannel
+        if (this.channel) this.channel.close();
+
+        // Close the RTCPeerConnection
+        if (this.peer) this.peer.close();
+
+        // ... and set clear references to avoid reuse
+        this.peer = null;
+        this.channel = null;
     };
 
-    private createPeer(config: RTCConfiguration) {
-        return new RTCPeerConnection(config);
+    private createPeer(config: RTCConfiguration, signalSocket: SignalSocket) {
+        const peer = new RTCPeerConnection(config);
+
+        // Send our ICE candidates to the peer as they are discovered
+        peer.onicecandidate = evt => {
+            if (evt.candidate) {
+                console.debug('WebUDP: Sending ICE candidate', evt.candidate);
+                const msg: ClientCandidate = { candidate: evt.candidate.toJSON() };
+                signalSocket.send(this.peerId, msg);
+            } else {
+                console.debug('WebUDP: Finished gathering ICE candidates');
+            }
+        };
+
+        // Watch for any important changes on the WebRTC connection
+        peer.oniceconnectionstatechange = () => {
+            if (peer.iceConnectionState === 'failed') {
+                this.onConnectFailed('No ICE candidate pair succeeded');
+            }
+        };
+
+        peer.onconnectionstatechange = () => {
+            switch(peer.connectionState) {
+                case "connected": break;
+                case "disconnected": break;
+                case "failed": this.close(); break;
+                case "closed": this.close(); break;
+            }
+        };
+
+        // Give up if the data channel hasn't opened within a reasonable time
+        this.connectTimeout = window.setTimeout(() => {
+            this.onConnectFailed(`Timed out after ${kConnectTimeoutMs / 1000} seconds`);
+        }, kConnectTimeoutMs);
+
+        return peer;
+    }
+
+    private async setRemoteDescription(desc: RTCSessionDescriptionInit) {
+        await this.peer!.setRemoteDescription(desc);
+
+        // Now that the remote description is set, apply any candidates that arrived early
+        const candidates = this.pendingCandidates;
+        this.pendingCandidates = [];
+        for (const candidate of candidates) {
+            this.addIceCandidate(candidate);
+        }
+    }
+
+    private onConnectFailed(reason: string) {
+        if (this.isOpen || !defined(this.peer)) return;
+
+        console.error(`WebUDP: Failed to connect to peer ${this.peerId}. ${reason}. ` + 
+            'A firewall or NAT may be blocking the connection.');
+        this.close();
     }
 
     private onDataChannelOpen() {
         console.debug('WebUDP: DataChannel open'); 
+        window.clearTimeout(this.connectTimeout);
 
-        this.fire(WebUdpEvent.Open); 
+        this.fire(TransportEvent.Open); 
     }
 
     private onDataChannelClosed() {
@@ -208,22 +300,7 @@ export class WebUdpSocket extends EventDispatcher {
         dataChannel.onopen = this.onDataChannelOpen.bind(this);
         dataChannel.onclose = this.onDataChannelClosed.bind(this);
         dataChannel.onerror = this.onDataChannelError.bind(this);
-        dataChannel.onmessage = msg => { this.fire(WebUdpEvent.Message, msg); }
+        dataChannel.onmessage = msg => { this.fire(TransportEvent.Message, msg.data); }
         this.channel = dataChannel;
     }
-
-    private getIceCandidates(): Promise<RTCIceCandidate[]> {
-        return new Promise(resolve => {
-            const candidates: RTCIceCandidate[] = [];
-            this.peer!.onicecandidate = evt => {
-                if (evt.candidate) {
-                    console.debug('WebUDP: Received ICE candidate', evt.candidate);
-                    candidates.push(evt.candidate);
-                } else {
-                    console.debug('WebUDP: Received all ICE candidates');
-                    resolve(candidates);
-                }
-            };
-        })
-    }
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { vec3 } from "gl-matrix";
+import { EventDispatcher } from "../EventDispatcher";
+import { Transport, TransportEvent, SessionInfo } from "./Transport";
+import { ClientId } from "./SignalSocket";
+import { SimState } from "../World";
+import { ServerConfig } from "../server";
+import { NetGraphStats } from "./NetDebug";
+
+/**
+ * Messages passed between the page and a Server running in a Worker. See ServerWorker and server.worker.ts.
+ */
+export enum ServerWorkerMsg {
+    // Page -> Worker
+    Seed,
+    Configure,
+    Accept, // A new transport has been accepted by the page
+    Open,
+    Receive,
+    SetClockDebug,
+    StepClock,
+    RequestSkeleton,
+    RequestNetGraph,
+    StartRecording,
+    StopRecording,
+
+    // Worker -> Page
+    Send,
+    SkeletonLines,
+    NetGraph, // In response to RequestNetGraph
+    Recording, // The replay file, in response to StopRecording
+
+    // Either direction
+    Close,
+}
+
+export interface ServerWorkerMessage {
+    type: ServerWorkerMsg;
+
+    socket?: number; // Identifies the transport for Accept, Open, Receive, Send and Close
+    clientId?: ClientId;
+    peerId?: ClientId;
+    session?: SessionInfo;
+    isOpen?: boolean;
+    name?: string; // The name of the page's transport
+    data?: ArrayBuffer; // A packet, or a replay file
+
+    state?: SimState;
+    config?: ServerConfig;
+
+    paused?: boolean;
+    speed?: number;
+    avatarIdx?: number;
+    lines?: vec3[];
+    netGraph?: NetGraphStats;
+}
+
+/**
+ * The Worker's end of a Transport that is owned by the page. Packets are relayed with postMessage(), and their buffers
+ * are transferred rather than copied.
+ * @NOTE: WebRTC is not available in Workers, so the page must maintain the real connections. See ServerWorker.
+ */
+export class WorkerSocket extends EventDispatcher implements Transport {
+    clientId: ClientId;
+    peerId: ClientId;
+    session?: SessionInfo;
+    name: string;
+
+    private open = false;
+    private closed = false;
+
+    get isOpen() { return this.open; }
+
+    constructor(private id: number, private port: Worker, msg: ServerWorkerMessage) {
+        super();
+        this.clientId = msg.clientId!;
+        this.peerId = msg.peerId!;
+        this.session = msg.session;
+        this.name = msg.name!;
+    }
+
+    send(data: ArrayBuffer | ArrayBufferView): boolean {
+        if (!this.open) return false;
+
+        // Copy the data, as the sender is free to reuse its buffer
+        const view = ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data);
+        const packet = view.slice().buffer;
+
+        const msg: ServerWorkerMessage = { type: ServerWorkerMsg.Send, socket: this.id, data: packet };
+        this.port.postMessage(msg, [packet]);
+        return true;
+    }
+
+    /**
+     * Close the connection, even if it has not opened yet. The page closes its transport, which may still be pending.
+     */
+    close() {
+        if (this.closed) return;
+
+        const msg: ServerWorkerMessage = { type: ServerWorkerMsg.Close, socket: this.id };
+        this.port.postMessage(msg);
+        this.onClose();
+    }
+
+    onOpen() {
+        if (this.closed) return;
+        this.open = true;
+        this.fire(TransportEvent.Open);
+    }
+
+    onReceive(data: ArrayBuffer) {
+        if (this.open) this.fire(TransportEvent.Message, data);
+    }
+
+    onClose() {
+        if (this.closed) return;
+        this.closed = true;
+        this.open = false;
+        this.fire(TransportEvent.Close);
+    }
+}
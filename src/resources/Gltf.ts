@@ -1198,7 +1198,8 @@ export class GltfLoader implements ResourceLoader {
 
     loadSync(context: ResourceLoadingContext, resource: GltfResource): void {
         // @HACK: We're forced to support async texture decompression on the main thread because of Safari
-        if (!defined(self.createImageBitmap)) { if (safariTextureLoadHack(resource, context)) return; }
+        //        Without a renderer (e.g. on a dedicated server) the textures are never decoded.
+        if (!defined(self.createImageBitmap) && defined(context.renderer)) { if (safariTextureLoadHack(resource, context)) return; }
         else { resource.status = ResourceStatus.Loaded; }
 
         resource.techniques = loadTechniquesSync(resource.transient.techniques, context);
@@ -32,8 +32,39 @@ const loaders: { [type: string]: ResourceLoader } = {
     sound: new SoundLoader(),
 };
 
+// The parts of the Worker interface used by ResourceManager
+interface ResourceWorker {
+    onmessage: ((e: MessageEvent) => void) | null;
+    postMessage(resources: Resource[], transferList?: Transferable[]): void;
+}
+
+/**
+ * Performs the asynchronous stage of loading on the current thread, for environments that don't support Workers. 
+ * E.g. the dedicated server, which runs under Node. See ResourceLoading.worker.ts.
+ */
+class InlineResourceWorker implements ResourceWorker {
+    onmessage: ((e: MessageEvent) => void) | null = null;
+
+    postMessage(resources: Resource[]) {
+        for (const resource of resources) {
+            this.loadAsync(resource).then(() => {
+                if (this.onmessage) this.onmessage({ data: [resource] } as MessageEvent);
+            });
+        }
+    }
+
+    private async loadAsync(resource: Resource) {
+        const loader = loaders[resource.source.type];
+        try { await loader.loadAsync(resource); }
+        catch(error) {
+            resource.status = ResourceStatus.Failed;
+            resource.error = error.stack;
+        }
+    }
+}
+
 export class ResourceManager {
-    worker: Worker;
+    worker: ResourceWorker;
     context: ResourceLoadingContext;
     messages: MessageEvent[] = [];
     pending: Resource[] = [];
@@ -47,7 +78,8 @@ export class ResourceManager {
     requests: { [key: string]: ResourceLoadedCallback<Resource>[] } = {};
 
     initialize(renderer?: Renderer, sound?: SoundManager) {
-        this.worker = new Worker();
+        // @NOTE: `Worker` is the imported worker-loader constructor, so check the global to find out if Workers exist
+        this.worker = defined(self.Worker) ? new Worker() : new InlineResourceWorker();
         this.worker.onmessage = (e: MessageEvent) => this.onMessage(e);
         this.context = {
             renderer,
@@ -8,30 +8,57 @@ import { NetModuleServer } from './net/NetModule';
 import { ResourceManager } from './resources/ResourceLoading';
 import { UserCommandBuffer } from './UserCommand';
 import { SignalSocket, SignalSocketEvents, ClientId } from './net/SignalSocket';
+import { Transport, TransportListener } from './net/Transport';
 import { DebugMenu } from './DebugMenu';
-import { SimStream, World } from './World';
+import { SimStream, SimState, World } from './World';
 import { WeaponSystem } from './Weapon';
 import { CollisionSystem, StaticCollisionSystem } from './Collision';
+import { LagCompensation } from './LagCompensation';
+import { MatchSystemServer } from './Match';
+import { getSkeletonLines } from './Skeleton';
+import { ReplayRecorder } from './Replay';
+import { GltfResource } from './resources/Gltf';
+import { defaultValue, defined } from './util';
 
 export const enum InitErrorCode {
     SUCCESS,
 }
 
+/**
+ * Room settings, which are chosen by the player that created the room
+ */
+export interface ServerConfig {
+    botTakeover: boolean;
+    botCount?: number; // Bots that play as if they were players. Players take their avatars when the room is full.
+}
+
+export interface ServerOptions {
+    tickInterval?: number; // Milliseconds between ticks. Each tick simulates as many fixed frames as are due.
+    manualTick?: boolean; // Don't tick in real time. Frames are only simulated by calls to step().
+    avatarGltf?: GltfResource; // Use this avatar model instead of loading one. See BakedSkeleton.
+}
+
 export class Server {
     public debugMenu: DebugMenu = new DebugMenu();
     public world = new World();
     public collision = new CollisionSystem();
     public staticCollision = new StaticCollisionSystem();
+    public lagCompensation = new LagCompensation();
 
     // Modules
     public avatar = new AvatarSystemServer();
     public weapon = new WeaponSystem(this.world);
     public clock = new Clock();
+    public match = new MatchSystemServer();
     public net = new NetModuleServer();
     public resources = new ResourceManager();
     public userCommands = new UserCommandBuffer();
+
+    public avatarGltf = this.options.avatarGltf;
+
+    private recorder?: ReplayRecorder;
     
-    constructor() {
+    constructor(private options: ServerOptions = {}) {
         this.init();
     }
 
@@ -39,7 +66,7 @@ export class Server {
         console.log(`Source for this build available at ${GITHUB_REVISION_URL}`);
         
         // Events
-        window.onbeforeunload = this.onUnload.bind(this);
+        window.onbeforeunload = this.terminate.bind(this);
 
         // Initialize Modules
         this.resources.initialize();
@@ -47,23 +74,101 @@ export class Server {
         this.net.initialize(this);
         this.avatar.initialize(this);
         this.weapon.initialize(this);
+        this.match.initialize(this);
 
         // @HACK:
         this.staticCollision.setStageRadius(2000);
+        this.collision.setTargetHistory(this.lagCompensation);
 
         if (!IS_DEVELOPMENT) {
             // Initialize Rollbar/Sentry for error reporting
         } else {
         }
 
-        const kTickDelay = 16; // ms between calls to this.tick()
-        setInterval(this.tick.bind(this), kTickDelay);
+        if (!this.options.manualTick) {
+            const tickDelay = defaultValue(this.options.tickInterval, 16); // ms between calls to this.tick()
+            setInterval(this.tick.bind(this), tickDelay);
+        }
 
         return InitErrorCode.SUCCESS;
     }
 
-    onConnect(signalSocket: SignalSocket) {
-        this.net.onConnect(signalSocket);
+    onConnect(signalSocket: SignalSocket, listeners?: TransportListener[]) {
+        this.configure({ botTakeover: signalSocket.botTakeover });
+        return this.net.onConnect(signalSocket, listeners);
+    }
+
+    onConnectLocal(transport: Transport) {
+        this.net.accept(transport);
+    }
+
+    /**
+     * Continue the simulation from the latest state of a previous host. This must be called before the first tick.
+     * The avatars of the previous host's clients are reserved until they reconnect.
+     */
+    seed(state: SimState) {
+        this.world.loadState(state);
+        this.world.captureState(state.frame);
+        this.clock.setFrame(state.frame);
+
+        this.net.reserveMigratedSessions();
+    }
+
+    configure(config: ServerConfig) {
+        this.avatar.botTakeover = config.botTakeover;
+        if (defined(config.botCount)) this.avatar.setBotCount(config.botCount);
+    }
+
+    terminate() {
+        this.net.terminate();
+    }
+
+    /**
+     * Record every following frame into a replay, until stopRecording() is called. See ReplaySystemClient.
+     */
+    startRecording() {
+        this.recorder = new ReplayRecorder();
+    }
+
+    /**
+     * @returns The replay file, or undefined if we weren't recording
+     */
+    stopRecording() {
+        const data = this.recorder?.finish();
+        this.recorder = undefined;
+        return data;
+    }
+
+    // Debug hooks for the client, which may also be reached through a ServerWorker
+    setClockDebug(paused: boolean, speed: number) {
+        this.clock.setDebug(paused, speed);
+    }
+
+    stepClock() {
+        this.clock.step();
+    }
+
+    getSkeletonLines(avatarIdx: number) {
+        const skeleton = this.avatar.getSkeleton(avatarIdx);
+        return skeleton ? getSkeletonLines(skeleton) : undefined;
+    }
+
+    updateNetGraph() {
+        this.net.updateNetGraph();
+    }
+
+    getNetGraphStats() {
+        return this.net.getNetGraphStats();
+    }
+
+    /**
+     * Simulate the next fixed frame immediately, regardless of how much real time has passed. This is how a server
+     * created with `manualTick` advances. See simulate.ts.
+     * @returns The state captured at the end of the frame
+     */
+    step() {
+        this.clock.setFrame(this.clock.simFrame + 1);
+        return this.simulateFrame();
     }
 
     private tick() {
@@ -77,27 +182,33 @@ export class Server {
         let tickCount = 0;
         while (this.clock.updateFixed()) {
             tickCount += 1;
+            this.simulateFrame();
+        }
 
-            this.collision.clear();
+        // if (tickCount !== 1) { console.warn('[Server] Uneven fixed frame tick:', tickCount); }
+    }
 
-            this.avatar.updateFixed(this);
-            this.weapon.updateFixed(this);
+    private simulateFrame() {
+        this.collision.clear();
 
-            this.avatar.updateFixedLate(this);
+        this.avatar.updateFixed(this);
+        this.weapon.updateFixed(this);
 
-            this.world.captureState(this.clock.simFrame);
-            this.net.transmitToClients(this.clock.simFrame);
-        }
+        this.avatar.updateFixedLate(this);
+        this.match.updateFixed(this);
 
-        // if (tickCount !== 1) { console.warn('[Server] Uneven fixed frame tick:', tickCount); }
+        // Remember where the targets were this frame, for clients that see this frame in the future
+        this.lagCompensation.capture(this.clock.simFrame, this.collision);
+
+        const state = this.world.captureState(this.clock.simFrame);
+        this.net.transmitToClients(this.clock.simFrame);
+
+        if (this.recorder) this.recorder.recordFrame(state, this.avatar.commands);
+        return state;
     }
 
     private update() {
         this.resources.update();
         // this.collision.debugRender();
     }
-
-    private onUnload() {
-        this.net.terminate();
-    }
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+// --------------------------------------------------------------------------------
+// Runs the Server simulation on its own thread, so that it keeps a steady tick rate regardless of the host page's 
+// rendering load, or whether its tab is visible. The page owns the real connections and relays packets to and from 
+// here. See ServerWorker for the page's side.
+// --------------------------------------------------------------------------------
+import './WorkerGlobals';
+import { Server } from './server';
+import { WorkerSocket, ServerWorkerMsg, ServerWorkerMessage } from './net/WorkerSocket';
+import { TransportEvent } from './net/Transport';
+
+// Trick typescript into assuming that we're using the Worker global interface, not Window
+// See https://github.com/Microsoft/TypeScript/issues/20595
+const ctx = self as any as Worker;
+
+const sockets = new Map<number, WorkerSocket>();
+
+// The server is created by the first message, so that a Seed message is always processed before the first tick
+let server: Server;
+
+onmessage = (e: MessageEvent) => {
+  const msg = e.data as ServerWorkerMessage;
+  if (!server) server = new Server();
+
+  switch (msg.type) {
+    case ServerWorkerMsg.Seed: server.seed(msg.state!); break;
+    case ServerWorkerMsg.Configure: server.configure(msg.config!); break;
+
+    case ServerWorkerMsg.Accept: {
+      const socket = new WorkerSocket(msg.socket!, ctx, msg);
+      sockets.set(msg.socket!, socket);
+      socket.once(TransportEvent.Close, () => sockets.delete(msg.socket!));
+      server.onConnectLocal(socket);
+
+      // The page's transport may have opened before we were able to subscribe to it
+      if (msg.isOpen) socket.onOpen();
+    } break;
+
+    case ServerWorkerMsg.Open: sockets.get(msg.socket!)?.onOpen(); break;
+    case ServerWorkerMsg.Receive: sockets.get(msg.socket!)?.onReceive(msg.data!); break;
+    case ServerWorkerMsg.Close: sockets.get(msg.socket!)?.onClose(); break;
+
+    case ServerWorkerMsg.SetClockDebug: server.setClockDebug(msg.paused!, msg.speed!); break;
+    case ServerWorkerMsg.StepClock: server.stepClock(); break;
+    case ServerWorkerMsg.StartRecording: server.startRecording(); break;
+    case ServerWorkerMsg.StopRecording: {
+      const data = server.stopRecording();
+      const reply: ServerWorkerMessage = { type: ServerWorkerMsg.Recording, data: data?.buffer };
+      ctx.postMessage(reply, data ? [data.buffer] : []);
+    } break;
+
+    case ServerWorkerMsg.RequestSkeleton: {
+      const lines = server.getSkeletonLines(msg.avatarIdx!);
+      const reply: ServerWorkerMessage = { type: ServerWorkerMsg.SkeletonLines, avatarIdx: msg.avatarIdx, lines };
+      ctx.postMessage(reply);
+    } break;
+
+    case ServerWorkerMsg.RequestNetGraph: {
+      const reply: ServerWorkerMessage = { type: ServerWorkerMsg.NetGraph, netGraph: server.getNetGraphStats() };
+      ctx.postMessage(reply);
+    } break;
+
+    default: console.warn('ServerWorker: Unexpected message', msg);
+  }
+}
+
+// Trickery to fix TypeScript since this will be done by "worker-loader"
+export default {} as typeof Worker & (new () => Worker);
@@ -0,0 +1,283 @@
+/// <reference types="node" />
+// --------------------------------------------------------------------------------
+// A headless harness for the server's simulation. It runs the avatars, weapons and collision with a baked skeleton
+// (see BakedSkeleton), feeds them scripted or recorded UserCommands, and prints a hash of the simulation state after
+// every frame. Runs are deterministic, so a regression in movement, attack timing or hit resolution shows up as a
+// difference between the output of two builds. Build with 'yarn build:node', then run e.g.
+//     node dist/simulate.js --frames 600 > before.txt
+//     node dist/simulate.js --script duel.json --out after.txt
+//     node dist/simulate.js --replay match.replay --verbose
+// It can also check the outcome of a script. E.g. the default script attacks once, so it must score exactly one hit:
+//     node dist/simulate.js --expect-score 1 > /dev/null
+// --------------------------------------------------------------------------------
+import './NodeGlobals';
+import * as fs from 'fs';
+import { Server } from './server';
+import { AvatarClient, AvatarHit, kAvatarCount } from './Avatar';
+import { createBakedAvatarGltf } from './BakedSkeleton';
+import { MatchRules } from './Match';
+import { Replay, parseReplay } from './Replay';
+import { UserCommand, kEmptyCommand } from './UserCommand';
+import { InputAction } from './Input';
+import { SimState } from './World';
+import { defined } from './util';
+
+/**
+ * A scripted match, as read from a JSON file by --script. See kDefaultScript for an example.
+ */
+interface SimulationScript {
+    rules?: Partial<MatchRules>; // Overrides for the default match rules
+    bots?: number; // The number of bots, which take the first avatars. The default is 0.
+    avatars: ScriptStep[][]; // The steps that each scripted avatar follows, in order. Once they run out, it is idle.
+}
+
+interface ScriptStep {
+    frames: number; // How long to follow this step
+    view?: [number, number]; // The X and Z of the camera's forward direction, which movement is relative to. Default +Z.
+    move?: [number, number]; // The vertical (forwards) and horizontal (rightwards) input axes, each -1, 0 or 1
+    actions?: string[]; // InputActions which are held for the whole step, by name. E.g. 'AttackSide'.
+}
+
+interface SimulateConfig {
+    frames?: number;
+    script: SimulationScript;
+    replayPath?: string;
+    outPath?: string;
+    verbose: boolean;
+    expectScore?: number;
+}
+
+/**
+ * Two avatars run towards each other once the countdown (188 frames) has finished. The second stops, and the first
+ * attacks it as they meet.
+ */
+const kDefaultScript: SimulationScript = {
+    avatars: [
+        [
+            { frames: 188 },
+            { frames: 90, view: [0, -1], move: [1, 0] },
+            { frames: 1, view: [0, -1], actions: ['AttackSide'] },
+        ],
+        [
+            { frames: 188 },
+            { frames: 90, view: [0, 1], move: [1, 0] },
+        ],
+    ],
+};
+
+/**
+ * All accepted command line options are documented here. Options without a value are flags.
+ * E.g. 'node dist/simulate.js --script duel.json --frames 1000 --verbose'
+ */
+const kCommandLineOptions: Record<string, (config: SimulateConfig, value: string) => void> = {
+    // The number of frames to simulate. Defaults to 600, or the length of the replay.
+    'frames': (config, value) => config.frames = Number.parseInt(value, 10),
+
+    // Follow a SimulationScript from a JSON file, instead of kDefaultScript
+    'script': (config, value) => config.script = JSON.parse(fs.readFileSync(value, 'utf8')),
+
+    // Follow the commands that were recorded in a replay file, starting from its first frame. See ReplayRecorder.
+    'replay': (config, value) => config.replayPath = value,
+
+    // Write the hashes to a file, instead of the console
+    'out': (config, value) => config.outPath = value,
+
+    // Also print the state of each active avatar, to help find the cause of a difference
+    'verbose': (config) => config.verbose = true,
+
+    // Exit with an error unless the hits scored this round, by all players, add up to this number when the run ends
+    'expect-score': (config, value) => config.expectScore = Number.parseInt(value, 10),
+}
+
+/**
+ * Follows a list of ScriptSteps, beginning on the frame that it was created
+ */
+class ScriptedClient implements AvatarClient {
+    private commands: UserCommand[] = [];
+
+    constructor(steps: ScriptStep[], private startFrame: number) {
+        for (const step of steps) {
+            const cmd: UserCommand = {
+                frame: -1,
+                headingX: step.view ? step.view[0] : kEmptyCommand.headingX,
+                headingZ: step.view ? step.view[1] : kEmptyCommand.headingZ,
+                verticalAxis: step.move ? step.move[0] : 0,
+                horizontalAxis: step.move ? step.move[1] : 0,
+                actions: (step.actions || []).reduce((actions, name) => actions | parseAction(name), 0),
+            };
+            for (let i = 0; i < step.frames; i++) this.commands.push(cmd);
+        }
+    }
+
+    getUserCommand(simFrame: number): UserCommand {
+        const cmd = this.commands[simFrame - this.startFrame] || kEmptyCommand;
+        return { ...cmd, frame: simFrame };
+    }
+}
+
+/**
+ * Follows the commands that an avatar followed in a replay
+ */
+class ReplayClient implements AvatarClient {
+    constructor(private replay: Replay, private avatarIdx: number) {}
+
+    getUserCommand(simFrame: number): UserCommand {
+        const commands = this.replay.commands[simFrame - this.replay.states[0].frame];
+        const cmd = commands && commands[this.avatarIdx];
+        return cmd || { ...kEmptyCommand, frame: simFrame };
+    }
+}
+
+function parseAction(name: string) {
+    const action = InputAction[name as keyof typeof InputAction];
+    if (!defined(action)) throw new Error(`Unknown action '${name}'. Expected one of: ${Object.keys(InputAction).filter(key => isNaN(Number(key))).join(', ')}`);
+    return action;
+}
+
+function parseCommandLine(args: string[]) {
+    const config: SimulateConfig = {
+        script: kDefaultScript,
+        verbose: false,
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const key = args[i].replace(/^--/, '');
+        const func = kCommandLineOptions[key];
+        if (!func) throw new Error(`Unknown option '${args[i]}'`);
+
+        const hasValue = i + 1 < args.length && !args[i + 1].startsWith('--');
+        func(config, hasValue ? args[++i] : '');
+    }
+
+    if (defined(config.frames) && !(config.frames > 0)) throw new Error('--frames must be a positive number');
+    if (config.replayPath === '') throw new Error('--replay requires a file name');
+    if (config.outPath === '') throw new Error('--out requires a file name');
+    if (defined(config.expectScore) && !(config.expectScore >= 0)) throw new Error('--expect-score must be a number');
+    if (!Array.isArray(config.script.avatars)) throw new Error(`The script must contain an 'avatars' array`);
+
+    return config;
+}
+
+// FNV-1a, over the bytes of each value as a float64, so that even the smallest change in a value changes the hash
+const scratchFloat = new Float64Array(1);
+const scratchBytes = new Uint8Array(scratchFloat.buffer);
+
+function hashValues(hash: number, ...values: number[]) {
+    for (const value of values) {
+        scratchFloat[0] = value;
+        for (let i = 0; i < scratchBytes.length; i++) {
+            hash = Math.imul(hash ^ scratchBytes[i], 0x01000193);
+        }
+    }
+    return hash;
+}
+
+/**
+ * @returns A hash of every entity's state at the end of a frame, and of the hits that occurred during it
+ */
+function hashFrame(state: SimState, hits: AvatarHit[]) {
+    let hash = hashValues(0x811C9DC5, state.frame);
+
+    for (const e of state.entities) {
+        hash = hashValues(hash, e.id, e.type, e.flags, e.parent, e.state, e.stateStartFrame, e.speed);
+        hash = hashValues(hash, ...e.origin, ...e.orientation);
+    }
+
+    for (const hit of hits) {
+        hash = hashValues(hash, hit.attacker, hit.target);
+    }
+
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function describeFrame(server: Server, state: SimState, hits: AvatarHit[], verbose: boolean) {
+    let line = `${state.frame} ${hashFrame(state, hits)}`;
+    for (const hit of hits) line += ` hit:${hit.attacker}>${hit.target}`;
+
+    if (verbose) {
+        for (const avatarIdx of server.avatar.getActiveAvatars()) {
+            const e = state.entities.find(e => e.id === avatarIdx)!;
+            line += ` [${avatarIdx} state:${e.state} origin:${Array.from(e.origin, v => v.toFixed(2)).join(',')}]`;
+        }
+    }
+
+    return line;
+}
+
+/**
+ * Give each avatar in the replay's first frame a client that follows its recorded commands.
+ * @NOTE: The match state is not recorded. Rather than start a new round, which would respawn the avatars and freeze
+ *        their input, the match is held in its warmup. Hits are still resolved, but they are not scored.
+ *        Avatars that became active later in the replay are not simulated.
+ */
+function loadReplay(server: Server, replay: Replay) {
+    server.match.rules.minPlayers = kAvatarCount + 1;
+    server.configure({ botTakeover: false, botCount: 0 });
+
+    // Like Server.seed(), but without reserving the avatars for clients that will never reconnect
+    const state = replay.states[0];
+    server.world.loadState(state);
+    server.world.captureState(state.frame);
+    server.clock.setFrame(state.frame);
+
+    for (const avatarIdx of server.avatar.getOrphanedAvatars()) {
+        server.avatar.setAvatarClient(avatarIdx, new ReplayClient(replay, avatarIdx));
+    }
+}
+
+function loadScript(server: Server, script: SimulationScript) {
+    Object.assign(server.match.rules, script.rules);
+    server.configure({ botTakeover: false, botCount: script.bots || 0 });
+
+    // Commands are followed from the first frame that is simulated
+    const startFrame = server.clock.simFrame + 1;
+    for (const steps of script.avatars) {
+        server.avatar.addAvatar(new ScriptedClient(steps, startFrame));
+    }
+}
+
+function Main() {
+    const config = parseCommandLine(process.argv.slice(2));
+
+    // Keep stdout for the hashes, so that they can be redirected to a file. Logs, e.g. the build info, go to stderr.
+    console.log = console.error;
+
+    const server = new Server({ manualTick: true, avatarGltf: createBakedAvatarGltf() });
+
+    let frameCount = config.frames || 600;
+    if (config.replayPath) {
+        const replay = parseReplay(new Uint8Array(fs.readFileSync(config.replayPath)));
+        loadReplay(server, replay);
+        frameCount = config.frames || replay.states.length - 1;
+    } else {
+        loadScript(server, config.script);
+    }
+
+    const lines: string[] = [];
+    let hitCount = 0;
+    for (let i = 0; i < frameCount; i++) {
+        const state = server.step();
+        hitCount += server.avatar.hits.length;
+        lines.push(describeFrame(server, state, server.avatar.hits, config.verbose));
+    }
+
+    server.terminate();
+
+    if (config.outPath) {
+        fs.writeFileSync(config.outPath, lines.join('\n') + '\n');
+        console.log(`Simulated ${frameCount} frames with ${hitCount} hits. Saved hashes to ${config.outPath}`);
+    } else {
+        process.stdout.write(lines.join('\n') + '\n');
+    }
+
+    const score = server.match.state.scores.reduce((sum, s) => sum + s.hits, 0);
+    if (defined(config.expectScore) && score !== config.expectScore) {
+        throw new Error(`Expected a score of ${config.expectScore}, but ${score} hits were scored`);
+    }
+}
+
+try { Main(); }
+catch (error) {
+    console.error(error.message);
+    process.exit(1);
+}
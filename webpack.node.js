@@ -0,0 +1,43 @@
+const webpack = require('webpack');
+const merge = require('webpack-merge');
+const path = require('path');
+const common = require('./webpack.common.js');
+
+// The dedicated server, signal server and simulation harness, which run under Node. They share the loaders and
+// definitions of the web build, but none of the plugins that produce the web page.
+module.exports = merge.strategy({ entry: 'replace', output: 'replace', plugins: 'replace' })(common, {
+  mode: 'production',
+  devtool: false,
+  target: 'node',
+  entry: {
+    dedicated: './src/dedicated.ts',
+    beacon: './src/beacon.ts',
+    simulate: './src/simulate.ts',
+  },
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: '[name].js',
+  },
+  externals: {
+    // Optional, and loaded at runtime if present. See kTransports in dedicated.ts.
+    wrtc: 'commonjs wrtc',
+
+    // Reads its own files at runtime, so it can't be bundled
+    'socket.io': 'commonjs socket.io',
+  },
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        loader: 'ts-loader',
+        exclude: /node_modules/,
+      },
+    ],
+  },
+  plugins: [
+    common.plugins.find(plugin => plugin instanceof webpack.DefinePlugin),
+    new webpack.DefinePlugin({
+      'process.env.NODE_ENV': JSON.stringify('production'),
+    }),
+  ],
+});